@@ -1,10 +1,27 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ApiKeyStep } from './components/ApiKeyStep';
 import { CharacterStep } from './components/CharacterStep';
 import { SceneStep } from './components/SceneStep';
+import { PageStep } from './components/PageStep';
 import { VideoStep } from './components/VideoStep';
 import { Stepper } from './components/Stepper';
-import type { Scene, VideoSegment } from './types';
+import { Spinner } from './components/Spinner';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { CapabilityWarning } from './components/CapabilityWarning';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { FolderIcon, UndoIcon, RedoIcon } from './components/icons';
+import { useHistory, fieldSetter, changedKeys } from './hooks/useHistory';
+import type { HistoryOptions } from './hooks/useHistory';
+import { createProjectId, loadLastProject, loadProject, revokeObjectUrls, saveProject } from './services/projectStore';
+import type { ProjectSnapshot } from './services/projectStore';
+import { createProvider, defaultProviderSettings } from './services/aiProvider';
+import type { ProviderSettings } from './services/aiProvider';
+import { IMAGE_GENERATION_MODEL, IMAGE_EDIT_MODEL, TEXT_MODEL } from './services/geminiService';
+import { cancelAllJobs, clearFinishedJobs } from './services/jobQueue';
+import { defaultArtStyleSettings } from './services/artStyles';
+import { defaultComicBook } from './services/comicPages';
+import type { ArtStyleSettings, Character, ComicBook, PromptTemplateOverrides, Scene, VideoSegment } from './types';
 
 export interface VideoConfig {
     audioFile: File | null;
@@ -16,20 +33,180 @@ export interface VideoConfig {
     outro?: VideoSegment;
 }
 
+const AUTOSAVE_DELAY_MS = 1000;
+
+const defaultVideoConfig: VideoConfig = {
+    audioFile: null,
+    audioUrl: null,
+    trimStart: 0,
+    trimEnd: null,
+    audioVolume: 1,
+    intro: undefined,
+    outro: undefined,
+};
+
+// The part of a project that undo/redo operates on.
+interface ProjectDocument {
+    artStyle: ArtStyleSettings;
+    promptTemplates: PromptTemplateOverrides;
+    characters: Character[];
+    scenes: Scene[];
+    comicBook: ComicBook;
+    videoConfig: VideoConfig;
+}
+
+const emptyDocument: ProjectDocument = { artStyle: defaultArtStyleSettings, promptTemplates: {}, characters: [], scenes: [], comicBook: defaultComicBook, videoConfig: defaultVideoConfig };
+
+// Generation progress is not recorded in history, so a restored snapshot may hold placeholders whose
+// request has since finished. Take the live image when it still exists, otherwise let the user retry.
+const reconcileInFlightImages = (restored: ProjectDocument, current: ProjectDocument): ProjectDocument => {
+    const currentImages = new Map(current.scenes.flatMap(scene => scene.images).map(img => [img.id, img]));
+    return {
+        ...restored,
+        scenes: restored.scenes.map(scene => ({
+            ...scene,
+            images: scene.images.map(img => img.status !== 'generating' ? img : currentImages.get(img.id) ?? { ...img, status: 'error' }),
+        })),
+    };
+};
+
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+    return target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button', 'file'].includes(target.type);
+};
+
 const App: React.FC = () => {
     const [unlockedStep, setUnlockedStep] = useState(1);
     const [apiKey, setApiKey] = useState<string | null>(null);
-    const [referenceImages, setReferenceImages] = useState<string[]>([]);
-    const [scenes, setScenes] = useState<Scene[]>([]);
-    const [videoConfig, setVideoConfig] = useState<VideoConfig>({
-        audioFile: null,
-        audioUrl: null,
-        trimStart: 0,
-        trimEnd: null,
-        audioVolume: 1,
-        intro: undefined,
-        outro: undefined,
-    });
+    const history = useHistory<ProjectDocument>(emptyDocument, reconcileInFlightImages);
+    const { artStyle, promptTemplates, characters, scenes, comicBook, videoConfig } = history.present;
+    const setArtStyle = fieldSetter(history.set, 'artStyle');
+    const setPromptTemplates = fieldSetter(history.set, 'promptTemplates');
+    const setCharacters = fieldSetter(history.set, 'characters');
+    const setScenes = fieldSetter(history.set, 'scenes');
+    const setComicBook = fieldSetter(history.set, 'comicBook');
+    const setVideoConfigField = fieldSetter(history.set, 'videoConfig');
+    // Slider drags and typing in VideoStep arrive as many full-config updates; group them by the fields they touch.
+    const setVideoConfig = (config: VideoConfig, options?: HistoryOptions) =>
+        setVideoConfigField(config, options ?? { coalesceKey: `videoConfig:${changedKeys(videoConfig, config)}` });
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [projectName, setProjectName] = useState('');
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(defaultProviderSettings);
+    // Bumped when the saved keys change, e.g. the vault is unlocked, so the provider picks up its key.
+    const [keysVersion, setKeysVersion] = useState(0);
+    const provider = useMemo(() => createProvider(providerSettings, apiKey), [providerSettings, apiKey, keysVersion]);
+    const [isRestoring, setIsRestoring] = useState(true);
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    // Loading a project changes every piece of state at once; that alone is not an edit worth saving.
+    const skipNextAutosave = useRef(false);
+
+    // Queued jobs write their results into whichever project is open when they finish, and the outgoing
+    // project's media URLs are unreachable once it is replaced.
+    const releaseOpenProject = () => {
+        cancelAllJobs();
+        clearFinishedJobs();
+        revokeObjectUrls({ scenes, videoConfig });
+    };
+
+    const applyProject = (project: ProjectSnapshot) => {
+        releaseOpenProject();
+        skipNextAutosave.current = true;
+        setProjectId(project.id);
+        setProjectName(project.name);
+        setProviderSettings(project.providerSettings);
+        setUnlockedStep(project.unlockedStep);
+        history.reset({ artStyle: project.artStyle, promptTemplates: project.promptTemplates, characters: project.characters, scenes: project.scenes, comicBook: project.comicBook, videoConfig: project.videoConfig });
+        setLastSavedAt(project.updatedAt);
+    };
+
+    useEffect(() => {
+        const handleKeysUpdated = () => setKeysVersion(version => version + 1);
+        window.addEventListener('apiKeysUpdated', handleKeysUpdated);
+        return () => window.removeEventListener('apiKeysUpdated', handleKeysUpdated);
+    }, []);
+
+    useEffect(() => {
+        loadLastProject()
+            .then(project => {
+                if (project) applyProject(project);
+            })
+            .catch(error => console.error("Failed to restore the last project:", error))
+            .finally(() => setIsRestoring(false));
+    }, []);
+
+    useEffect(() => {
+        if (isRestoring || !projectId) return;
+        if (skipNextAutosave.current) {
+            skipNextAutosave.current = false;
+            return;
+        }
+        const timeoutId = window.setTimeout(() => {
+            const updatedAt = Date.now();
+            saveProject({ id: projectId, name: projectName, updatedAt, unlockedStep, artStyle, promptTemplates, characters, scenes, comicBook, videoConfig, providerSettings })
+                .then(() => setLastSavedAt(updatedAt))
+                .catch(error => console.error("Failed to autosave project:", error));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timeoutId);
+    }, [isRestoring, projectId, projectName, unlockedStep, artStyle, promptTemplates, characters, scenes, comicBook, videoConfig, providerSettings]);
+
+    useEffect(() => {
+        if (!projectId) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isTextEditingTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                history.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                history.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [projectId, history.undo, history.redo]);
+
+    const handleOpenProject = async (id: string) => {
+        try {
+            const project = await loadProject(id);
+            if (project) applyProject(project);
+        } catch (error) {
+            console.error("Failed to open project:", error);
+            alert("Không thể mở dự án. Vui lòng thử lại.");
+        }
+    };
+
+    const handleImportProject = async (project: ProjectSnapshot) => {
+        try {
+            await saveProject(project);
+        } catch (error) {
+            console.error("Failed to save imported project:", error);
+        }
+        applyProject(project);
+    };
+
+    const handleCreateProject = (name: string) => {
+        releaseOpenProject();
+        setProjectId(createProjectId());
+        setProjectName(name);
+        setProviderSettings(defaultProviderSettings);
+        setUnlockedStep(apiKey ? 2 : 1);
+        history.reset(emptyDocument);
+        setLastSavedAt(null);
+    };
+
+    const handleCloseProject = async () => {
+        if (projectId) {
+            try {
+                await saveProject({ id: projectId, name: projectName, updatedAt: Date.now(), unlockedStep, artStyle, promptTemplates, characters, scenes, comicBook, videoConfig, providerSettings });
+            } catch (error) {
+                console.error("Failed to save project before closing:", error);
+            }
+        }
+        releaseOpenProject();
+        setProjectId(null);
+    };
 
     const handleKeySelection = (selectedKey: string | null) => {
         setApiKey(selectedKey);
@@ -38,8 +215,19 @@ const App: React.FC = () => {
         }
     };
 
+    const handleProviderSettingsChange = (settings: ProviderSettings) => {
+        setProviderSettings(settings);
+        if (createProvider(settings, apiKey)) {
+            setUnlockedStep(prev => Math.max(prev, 2));
+        }
+    };
+
+    // Only Gemini keys are probed for model access, so the warning does not apply to other providers.
+    const capabilityNotice = (models: string[]) =>
+        providerSettings.providerId === 'gemini' ? <CapabilityWarning apiKey={apiKey} models={models} /> : null;
+
     const handleCharacterStepComplete = () => {
-        if (referenceImages.length > 0) {
+        if (characters.some(character => character.referenceImages.length > 0)) {
             setUnlockedStep(prev => Math.max(prev, 3));
         }
     };
@@ -49,6 +237,11 @@ const App: React.FC = () => {
             setUnlockedStep(prev => Math.max(prev, 4));
         }
     };
+
+    // Pages are optional; the video is built from the scenes either way.
+    const handlePageStepComplete = () => {
+        setUnlockedStep(prev => Math.max(prev, 5));
+    };
     
     return (
         <div className="min-h-screen bg-slate-900 text-white font-sans">
@@ -62,32 +255,71 @@ const App: React.FC = () => {
                     </p>
                 </header>
                 
-                <main>
-                    <Stepper currentStep={unlockedStep} />
-                    <div className="mt-8 space-y-8">
-                        <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
-                           <ApiKeyStep onKeySelect={handleKeySelection} activeKeyValue={apiKey} />
-                        </div>
-
-                        {unlockedStep >= 2 && (
-                             <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
-                                <CharacterStep apiKey={apiKey} referenceImages={referenceImages} setReferenceImages={setReferenceImages} onNext={handleCharacterStepComplete} />
+                {isRestoring ? (
+                    <div className="flex items-center justify-center gap-3 text-slate-400 py-20">
+                        <Spinner /> Đang khôi phục dự án...
+                    </div>
+                ) : !projectId ? (
+                    <main className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
+                        <ProjectLibrary onOpenProject={handleOpenProject} onCreateProject={handleCreateProject} onImportProject={handleImportProject} />
+                    </main>
+                ) : (
+                    <main>
+                        <div className="flex justify-between items-center mb-8 gap-4">
+                            <p className="text-slate-300 truncate">Dự án: <span className="font-semibold text-primary-400">{projectName}</span></p>
+                            <div className="flex items-center gap-2 shrink-0">
+                                <button onClick={history.undo} disabled={!history.canUndo} title="Hoàn tác (Ctrl+Z)" className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-lg disabled:bg-slate-800 disabled:text-slate-600">
+                                    <UndoIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={history.redo} disabled={!history.canRedo} title="Làm lại (Ctrl+Shift+Z)" className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-lg disabled:bg-slate-800 disabled:text-slate-600">
+                                    <RedoIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={handleCloseProject} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center gap-2">
+                                    <FolderIcon className="w-4 h-4" /> Thư viện dự án
+                                </button>
                             </div>
+                        </div>
+                        <Stepper currentStep={unlockedStep} />
+                        {lastSavedAt && (
+                            <p className="text-center text-xs text-slate-500 -mt-4">
+                                Đã tự động lưu lúc {new Date(lastSavedAt).toLocaleTimeString('vi-VN')}
+                            </p>
                         )}
-
-                        {unlockedStep >= 3 && (
+                        <div className="mt-8 space-y-8">
                             <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
-                                <SceneStep apiKey={apiKey} referenceImages={referenceImages} scenes={scenes} setScenes={setScenes} onNext={handleSceneStepComplete} />
+                               <ProviderSettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} />
+                               {providerSettings.providerId === 'gemini' && (
+                                   <ApiKeyStep onKeySelect={handleKeySelection} activeKeyValue={apiKey} />
+                               )}
                             </div>
-                        )}
 
-                        {unlockedStep >= 4 && (
-                            <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
-                                <VideoStep apiKey={apiKey} scenes={scenes} setScenes={setScenes} videoConfig={videoConfig} setVideoConfig={setVideoConfig} />
-                            </div>
-                        )}
-                    </div>
-                </main>
+                            {unlockedStep >= 2 && (
+                                 <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
+                                    <CharacterStep provider={provider} notice={capabilityNotice([IMAGE_GENERATION_MODEL, IMAGE_EDIT_MODEL])} artStyle={artStyle} setArtStyle={setArtStyle} promptTemplates={promptTemplates} setPromptTemplates={setPromptTemplates} characters={characters} setCharacters={setCharacters} onNext={handleCharacterStepComplete} />
+                                </div>
+                            )}
+
+                            {unlockedStep >= 3 && (
+                                <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
+                                    <SceneStep provider={provider} notice={capabilityNotice([TEXT_MODEL, IMAGE_EDIT_MODEL])} artStyle={artStyle} setArtStyle={setArtStyle} promptTemplates={promptTemplates} setPromptTemplates={setPromptTemplates} characters={characters} scenes={scenes} setScenes={setScenes} onNext={handleSceneStepComplete} />
+                                </div>
+                            )}
+
+                            {unlockedStep >= 4 && (
+                                <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
+                                    <PageStep scenes={scenes} setScenes={setScenes} comicBook={comicBook} setComicBook={setComicBook} projectName={projectName} onNext={handlePageStepComplete} />
+                                </div>
+                            )}
+
+                            {unlockedStep >= 5 && (
+                                <div className="bg-slate-800/50 rounded-2xl shadow-2xl p-6 md:p-10 border border-slate-700">
+                                    <VideoStep apiKey={apiKey} scenes={scenes} setScenes={setScenes} videoConfig={videoConfig} setVideoConfig={setVideoConfig} />
+                                </div>
+                            )}
+                        </div>
+                        <JobQueuePanel />
+                    </main>
+                )}
                  <footer className="text-center mt-12 text-slate-500">
                     <p>Được phát triển với React, Tailwind CSS và Gemini API.</p>
                 </footer>
@@ -1,7 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { SavedApiKey } from '../types';
+import { SavedApiKey, ModelCapability } from '../types';
 import { KeyIcon, PlusIcon, TrashIcon, ExclamationCircleIcon } from './icons';
-import { clearApiKeyStatus } from '../services/utils';
+import { clearApiKeyStatus, parseGeminiError } from '../services/utils';
+import { getSavedApiKeys, saveApiKeys, isVaultEnabled, isVaultUnlocked } from '../services/keyVault';
+import { API_KEY_SERVED_EVENT } from '../services/apiKeyPool';
+import type { ApiKeyServedDetail } from '../services/apiKeyPool';
+import { operationLabels } from '../services/usageTracker';
+import { UsagePanel } from './UsagePanel';
+import { ResponseCachePanel } from './ResponseCachePanel';
+import { KeyVaultPanel } from './KeyVaultPanel';
+import { Spinner } from './Spinner';
+import { checkApiKeyHealth, PROBED_MODELS, modelLabels } from '../services/keyHealth';
+
+const MAX_RECENT_REQUESTS = 8;
+
+const capabilityBadgeClasses: { [capability in ModelCapability]: string } = {
+    available: 'text-green-300 bg-green-900/50',
+    unavailable: 'text-red-300 bg-red-900/50',
+    unverified: 'text-amber-300 bg-amber-900/50',
+    unknown: 'text-slate-300 bg-slate-700',
+};
 
 
 interface ApiKeyStepProps {
@@ -15,22 +33,21 @@ export const ApiKeyStep: React.FC<ApiKeyStepProps> = ({ onKeySelect, activeKeyVa
     const [instructionsVisible, setInstructionsVisible] = useState(false);
     const [newKeyName, setNewKeyName] = useState('');
     const [newKeyValue, setNewKeyValue] = useState('');
+    const [recentRequests, setRecentRequests] = useState<ApiKeyServedDetail[]>([]);
+    const [isVaultOn, setIsVaultOn] = useState(false);
+    const [isVaultLocked, setIsVaultLocked] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [testingKeyIds, setTestingKeyIds] = useState<string[]>([]);
+    // Why the last check of a key failed, by key id.
+    const [testErrors, setTestErrors] = useState<{ [keyId: string]: string }>({});
     
     const loadKeysFromStorage = () => {
-         try {
-            const storedKeys = localStorage.getItem('geminiApiKeysList');
-            if (storedKeys) {
-                const parsedKeys = JSON.parse(storedKeys);
-                setSavedKeys(parsedKeys);
-                if (parsedKeys.length === 0 && !isAddingKey) {
-                    setIsAddingKey(true);
-                }
-            } else {
-                setIsAddingKey(true);
-            }
-        } catch (error) {
-            console.error("Failed to parse API keys from storage:", error);
-            setSavedKeys([]);
+        const locked = isVaultEnabled() && !isVaultUnlocked();
+        const keys = getSavedApiKeys();
+        setIsVaultOn(isVaultEnabled());
+        setIsVaultLocked(locked);
+        setSavedKeys(keys);
+        if (keys.length === 0 && !locked) {
             setIsAddingKey(true);
         }
     };
@@ -45,11 +62,43 @@ export const ApiKeyStep: React.FC<ApiKeyStepProps> = ({ onKeySelect, activeKeyVa
         };
     }, []);
 
-    const saveKeysToStorage = (keys: SavedApiKey[]) => {
-        localStorage.setItem('geminiApiKeysList', JSON.stringify(keys));
+    useEffect(() => {
+        const handleKeyServed = (e: Event) => {
+            const detail = (e as CustomEvent<ApiKeyServedDetail>).detail;
+            setRecentRequests(prev => [detail, ...prev].slice(0, MAX_RECENT_REQUESTS));
+        };
+        window.addEventListener(API_KEY_SERVED_EVENT, handleKeyServed);
+        return () => window.removeEventListener(API_KEY_SERVED_EVENT, handleKeyServed);
+    }, []);
+
+    const saveKeysToStorage = async (keys: SavedApiKey[]) => {
+        setSaveError(null);
+        try {
+            await saveApiKeys(keys);
+        } catch (error) {
+            console.error("Failed to save API keys:", error);
+            setSaveError(error instanceof Error ? error.message : 'Không thể lưu API key.');
+        }
     };
 
-    const handleAddKey = () => {
+    const handleTestKey = async (key: SavedApiKey) => {
+        setTestingKeyIds(prev => [...prev, key.id]);
+        setTestErrors(prev => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { [key.id]: _previous, ...rest } = prev;
+            return rest;
+        });
+        try {
+            await checkApiKeyHealth(key.value);
+        } catch (error) {
+            console.error("Failed to check API key:", error);
+            setTestErrors(prev => ({ ...prev, [key.id]: parseGeminiError(error) }));
+        } finally {
+            setTestingKeyIds(prev => prev.filter(id => id !== key.id));
+        }
+    };
+
+    const handleAddKey = async () => {
         if (newKeyName.trim() && newKeyValue.trim()) {
             const newKey: SavedApiKey = {
                 id: `key-${Date.now()}`,
@@ -58,10 +107,11 @@ export const ApiKeyStep: React.FC<ApiKeyStepProps> = ({ onKeySelect, activeKeyVa
             };
             const updatedKeys = [...savedKeys, newKey];
             setSavedKeys(updatedKeys);
-            saveKeysToStorage(updatedKeys);
             setIsAddingKey(false);
             setNewKeyName('');
             setNewKeyValue('');
+            await saveKeysToStorage(updatedKeys);
+            handleTestKey(newKey);
         }
     };
 
@@ -79,7 +129,7 @@ export const ApiKeyStep: React.FC<ApiKeyStepProps> = ({ onKeySelect, activeKeyVa
     };
 
     const handleUseKey = (key: SavedApiKey) => {
-        if (key.status === 'invalid') {
+        if (key.status) {
             clearApiKeyStatus(key.value);
         }
         onKeySelect(key.value);
@@ -96,88 +146,139 @@ export const ApiKeyStep: React.FC<ApiKeyStepProps> = ({ onKeySelect, activeKeyVa
             <h2 className="text-2xl font-bold mb-4 text-primary-400">Bước 1: Cung cấp API Key</h2>
             <p className="text-slate-400 mb-8 max-w-lg">Chọn một API Key từ danh sách của bạn để bắt đầu. Nếu một key bị lỗi, bạn có thể chọn một key khác để tiếp tục.</p>
 
-            <div className="w-full max-w-xl space-y-3 mb-6">
-                {savedKeys.length > 0 ? (
-                    savedKeys.map(key => (
-                         <div 
-                            key={key.id} 
-                            onClick={() => handleUseKey(key)}
-                            className={`flex items-center gap-4 p-4 rounded-lg border-2 cursor-pointer transition-all ${activeKeyValue === key.value ? 'bg-primary-900/50 border-primary-600' : 'bg-slate-900/50 border-slate-700 hover:border-slate-500'}`}
-                        >
-                            <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${activeKeyValue === key.value ? 'border-primary-500 bg-primary-500' : 'border-slate-500'}`}>
-                                {activeKeyValue === key.value && <div className="w-3 h-3 rounded-full bg-white"></div>}
-                            </div>
-                            <div className="flex-grow text-left">
-                                <div className="flex items-center gap-2">
-                                    <p className="font-semibold text-slate-100 truncate" title={key.name}>{key.name}</p>
-                                    {key.status === 'invalid' && (
-                                        <span className="flex items-center gap-1 text-xs text-red-400 bg-red-900/50 px-2 py-0.5 rounded-full" title="Key này có thể đã hết hạn hoặc không hợp lệ.">
-                                            <ExclamationCircleIcon className="w-4 h-4" />
-                                            Không hợp lệ
-                                        </span>
+            <KeyVaultPanel isEnabled={isVaultOn} isLocked={isVaultLocked} onLocked={() => onKeySelect(null)} />
+
+            {saveError && <div className="w-full max-w-xl bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-6">{saveError}</div>}
+
+            {!isVaultLocked && (
+                <>
+                <div className="w-full max-w-xl space-y-3 mb-6">
+                    {savedKeys.length > 0 ? (
+                        savedKeys.map(key => (
+                             <div 
+                                key={key.id} 
+                                onClick={() => handleUseKey(key)}
+                                className={`flex items-center gap-4 p-4 rounded-lg border-2 cursor-pointer transition-all ${activeKeyValue === key.value ? 'bg-primary-900/50 border-primary-600' : 'bg-slate-900/50 border-slate-700 hover:border-slate-500'}`}
+                            >
+                                <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${activeKeyValue === key.value ? 'border-primary-500 bg-primary-500' : 'border-slate-500'}`}>
+                                    {activeKeyValue === key.value && <div className="w-3 h-3 rounded-full bg-white"></div>}
+                                </div>
+                                <div className="flex-grow text-left">
+                                    <div className="flex items-center gap-2">
+                                        <p className="font-semibold text-slate-100 truncate" title={key.name}>{key.name}</p>
+                                        {key.status === 'invalid' && (
+                                            <span className="flex items-center gap-1 text-xs text-red-400 bg-red-900/50 px-2 py-0.5 rounded-full" title="Key này có thể đã hết hạn hoặc không hợp lệ.">
+                                                <ExclamationCircleIcon className="w-4 h-4" />
+                                                Không hợp lệ
+                                            </span>
+                                        )}
+                                        {key.status === 'exhausted' && (key.exhaustedUntil ?? 0) > Date.now() && (
+                                            <span className="flex items-center gap-1 text-xs text-amber-400 bg-amber-900/50 px-2 py-0.5 rounded-full" title="Key này đã hết hạn ngạch và sẽ được bỏ qua cho đến khi hạn ngạch được đặt lại.">
+                                                <ExclamationCircleIcon className="w-4 h-4" />
+                                                Hết hạn ngạch đến {new Date(key.exhaustedUntil!).toLocaleTimeString('vi-VN')}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-slate-400 font-mono">...{key.value.slice(-4)}</p>
+                                    {key.capabilities && (
+                                        <div className="flex flex-wrap gap-1 mt-1" title={key.capabilitiesCheckedAt ? `Kiểm tra lúc ${new Date(key.capabilitiesCheckedAt).toLocaleString('vi-VN')}` : undefined}>
+                                            {PROBED_MODELS.map(model => {
+                                                const capability = key.capabilities?.[model] ?? 'unknown';
+                                                return (
+                                                    <span key={model} className={`text-xs px-2 py-0.5 rounded-full ${capabilityBadgeClasses[capability]}`} title={capability === 'unverified' ? 'Key thấy được mô hình này, nhưng chỉ lần tạo ảnh thật đầu tiên mới xác nhận được key có quyền dùng (key miễn phí thường không dùng được Imagen).' : undefined}>
+                                                        {capability === 'available' ? '✓' : capability === 'unavailable' ? '✗' : '?'} {modelLabels[model]}
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
                                     )}
+                                    {testErrors[key.id] && <p className="text-xs text-red-400 mt-1">{testErrors[key.id]}</p>}
                                 </div>
-                                <p className="text-sm text-slate-400 font-mono">...{key.value.slice(-4)}</p>
+                                <button onClick={(e) => { e.stopPropagation(); handleTestKey(key); }} disabled={testingKeyIds.includes(key.id)} className="bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold py-2 px-3 rounded-lg flex-shrink-0 flex items-center gap-2 disabled:bg-slate-600" title="Kiểm tra các mô hình mà key này dùng được">
+                                    {testingKeyIds.includes(key.id) ? <Spinner /> : 'Kiểm tra'}
+                                </button>
+                                <button onClick={(e) => { e.stopPropagation(); handleDeleteKey(key.id); }} className="bg-red-600/50 hover:bg-red-600 text-white p-2 rounded-lg flex-shrink-0" title={`Xóa key ${key.name}`}>
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
                             </div>
-                            <button onClick={(e) => { e.stopPropagation(); handleDeleteKey(key.id); }} className="bg-red-600/50 hover:bg-red-600 text-white p-2 rounded-lg flex-shrink-0" title={`Xóa key ${key.name}`}>
-                                <TrashIcon className="w-5 h-5" />
-                            </button>
+                        ))
+                    ) : (
+                        !isAddingKey && (
+                            <div className="text-center py-6 px-4 bg-slate-900/50 rounded-lg border border-slate-700">
+                                <p className="text-slate-400">Bạn chưa có API key nào được lưu.</p>
+                                <p className="text-slate-500 text-sm">Hãy thêm một key để bắt đầu.</p>
+                            </div>
+                        )
+                    )}
+                </div>
+
+                {isAddingKey ? (
+                    <div className="w-full max-w-xl p-6 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4 mb-6 transition-all duration-300">
+                         <h3 className="text-lg font-semibold text-left text-primary-400">Thêm API Key mới</h3>
+                         <div className="text-left">
+                            <label htmlFor="keyName" className="block text-sm font-medium text-slate-400 mb-1">Tên Key</label>
+                            <input
+                                id="keyName"
+                                type="text"
+                                value={newKeyName}
+                                onChange={(e) => setNewKeyName(e.target.value)}
+                                placeholder="Ví dụ: Key cá nhân"
+                                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+                            />
                         </div>
-                    ))
-                ) : (
-                    !isAddingKey && (
-                        <div className="text-center py-6 px-4 bg-slate-900/50 rounded-lg border border-slate-700">
-                            <p className="text-slate-400">Bạn chưa có API key nào được lưu.</p>
-                            <p className="text-slate-500 text-sm">Hãy thêm một key để bắt đầu.</p>
+                         <div className="text-left">
+                            <label htmlFor="keyValue" className="block text-sm font-medium text-slate-400 mb-1">Giá trị API Key</label>
+                            <input
+                                id="keyValue"
+                                type="password"
+                                value={newKeyValue}
+                                onChange={(e) => setNewKeyValue(e.target.value)}
+                                placeholder="Dán API Key của bạn vào đây"
+                                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+                            />
                         </div>
-                    )
-                )}
-            </div>
-
-            {isAddingKey ? (
-                <div className="w-full max-w-xl p-6 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4 mb-6 transition-all duration-300">
-                     <h3 className="text-lg font-semibold text-left text-primary-400">Thêm API Key mới</h3>
-                     <div className="text-left">
-                        <label htmlFor="keyName" className="block text-sm font-medium text-slate-400 mb-1">Tên Key</label>
-                        <input
-                            id="keyName"
-                            type="text"
-                            value={newKeyName}
-                            onChange={(e) => setNewKeyName(e.target.value)}
-                            placeholder="Ví dụ: Key cá nhân"
-                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
-                        />
-                    </div>
-                     <div className="text-left">
-                        <label htmlFor="keyValue" className="block text-sm font-medium text-slate-400 mb-1">Giá trị API Key</label>
-                        <input
-                            id="keyValue"
-                            type="password"
-                            value={newKeyValue}
-                            onChange={(e) => setNewKeyValue(e.target.value)}
-                            placeholder="Dán API Key của bạn vào đây"
-                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
-                        />
-                    </div>
-                    <div className="flex justify-end gap-3 pt-2">
-                        {savedKeys.length > 0 && (
-                            <button onClick={handleCancelAdd} className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg">
-                               Hủy
+                        <div className="flex justify-end gap-3 pt-2">
+                            {savedKeys.length > 0 && (
+                                <button onClick={handleCancelAdd} className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg">
+                                   Hủy
+                                </button>
+                            )}
+                            <button onClick={handleAddKey} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg">
+                               Lưu Key
                             </button>
-                        )}
-                        <button onClick={handleAddKey} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg">
-                           Lưu Key
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex items-center justify-center gap-4">
+                        <button onClick={() => setIsAddingKey(true)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-5 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105">
+                            <PlusIcon className="w-5 h-5" /> Thêm API Key
                         </button>
                     </div>
-                </div>
-            ) : (
-                <div className="flex items-center justify-center gap-4">
-                    <button onClick={() => setIsAddingKey(true)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-5 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105">
-                        <PlusIcon className="w-5 h-5" /> Thêm API Key
-                    </button>
+                )}
+                </>
+            )}
+
+            {recentRequests.length > 0 && (
+                <div className="w-full max-w-xl mt-8 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-left">
+                    <h3 className="font-semibold text-primary-400 mb-3">Yêu cầu gần đây</h3>
+                    <ul className="space-y-2 text-sm">
+                        {recentRequests.map(request => (
+                            <li key={`${request.timestamp}-${request.operation}`} className="flex justify-between gap-4">
+                                <span className="text-slate-300">{operationLabels[request.operation] ?? request.operation}</span>
+                                <span className="text-slate-400 text-right">
+                                    Key <span className="font-semibold text-slate-200">{request.keyName}</span>
+                                    {request.failedOverFrom.length > 0 && <span className="text-amber-400"> (chuyển từ {request.failedOverFrom.join(', ')})</span>}
+                                    {' · '}{new Date(request.timestamp).toLocaleTimeString('vi-VN')}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
                 </div>
             )}
 
+            <UsagePanel />
+            <ResponseCachePanel />
+
             <div className="w-full max-w-xl mt-8">
                 <div className="bg-slate-900/50 border border-slate-700 rounded-lg">
                     <button
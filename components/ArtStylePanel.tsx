@@ -0,0 +1,132 @@
+import React, { useState, useRef } from 'react';
+import type { ArtStyleSettings, StylePreset } from '../types';
+import type { HistorySetter } from '../hooks/useHistory';
+import { createStylePreset, getStylePresets, getSelectedStyle } from '../services/artStyles';
+import { fileToBase64 } from '../services/utils';
+import { DuplicateIcon, PlusIcon, TrashIcon, UploadIcon } from './icons';
+
+interface ArtStylePanelProps {
+    artStyle: ArtStyleSettings;
+    setArtStyle: HistorySetter<ArtStyleSettings>;
+}
+
+const inputClassName = "w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 text-sm";
+
+/** Picks the project's art style and edits custom presets. The choice applies to every generation and edit in steps 2 and 3. */
+export const ArtStylePanel: React.FC<ArtStylePanelProps> = ({ artStyle, setArtStyle }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const selected = getSelectedStyle(artStyle);
+
+    const selectStyle = (selectedId: string | null) => setArtStyle({ ...artStyle, selectedId });
+
+    const addPreset = (base?: StylePreset) => {
+        const preset = createStylePreset(base);
+        setArtStyle({ selectedId: preset.id, customPresets: [...artStyle.customPresets, preset] });
+    };
+
+    const updatePreset = (id: string, changes: Partial<StylePreset>, coalesceKey?: string) => {
+        setArtStyle(prev => ({
+            ...prev,
+            customPresets: prev.customPresets.map(preset => preset.id === id ? { ...preset, ...changes } : preset),
+        }), coalesceKey ? { coalesceKey } : undefined);
+    };
+
+    const handleDeletePreset = (preset: StylePreset) => {
+        if (!window.confirm(`Xóa phong cách "${preset.name}"?`)) return;
+        setArtStyle({
+            selectedId: artStyle.selectedId === preset.id ? null : artStyle.selectedId,
+            customPresets: artStyle.customPresets.filter(p => p.id !== preset.id),
+        });
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (!selected || selected.builtIn || !event.target.files) return;
+        try {
+            const images = await Promise.all(Array.from(event.target.files).map((file: File) => fileToBase64(file)));
+            updatePreset(selected.id, { referenceImages: [...selected.referenceImages, ...images] });
+            setError(null);
+        } catch (err) {
+            setError("Không thể tải tệp lên. Vui lòng thử lại.");
+        }
+        event.target.value = '';
+    };
+
+    return (
+        <div className="mb-8 bg-slate-900/50 border border-slate-700 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full cursor-pointer p-4 font-semibold text-primary-400 flex justify-between items-center text-left"
+                aria-expanded={isOpen}
+                aria-controls="art-style-panel"
+            >
+                <span>Phong cách vẽ: <span className="text-slate-200">{selected?.name ?? 'Không áp dụng'}</span></span>
+                <svg className={`w-5 h-5 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div id="art-style-panel" className="p-4 border-t border-slate-700 space-y-4">
+                    {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">{error}</div>}
+                    <p className="text-xs text-slate-500">Phong cách được thêm vào mọi lần tạo và chỉnh sửa ảnh nhân vật và cảnh của dự án này. Ảnh mẫu phong cách chỉ được gửi kèm khi mô hình nhận ảnh tham chiếu.</p>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => selectStyle(null)} className={`px-3 py-1 text-sm rounded-full transition-colors ${!selected ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                            Không áp dụng
+                        </button>
+                        {getStylePresets(artStyle).map(preset => (
+                            <button key={preset.id} onClick={() => selectStyle(preset.id)} className={`px-3 py-1 text-sm rounded-full transition-colors ${selected?.id === preset.id ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                {preset.name || 'Chưa đặt tên'}
+                            </button>
+                        ))}
+                        <button onClick={() => addPreset()} className="px-3 py-1 text-sm rounded-full text-primary-400 hover:text-primary-300 flex items-center gap-1">
+                            <PlusIcon className="w-4 h-4" /> Phong cách mới
+                        </button>
+                    </div>
+                    {selected?.builtIn && (
+                        <div className="space-y-2 text-sm">
+                            <p><span className="text-slate-400">Nên có:</span> {selected.positive}</p>
+                            <p><span className="text-slate-400">Tránh:</span> {selected.negative}</p>
+                            <button onClick={() => addPreset(selected)} className="text-primary-400 hover:text-primary-300 flex items-center gap-1">
+                                <DuplicateIcon className="w-4 h-4" /> Nhân bản để tùy chỉnh
+                            </button>
+                        </div>
+                    )}
+                    {selected && !selected.builtIn && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2">
+                                <input type="text" value={selected.name} onChange={e => updatePreset(selected.id, { name: e.target.value }, `style:${selected.id}:name`)} placeholder="Tên phong cách" className={`${inputClassName} font-semibold`} />
+                                <button onClick={() => handleDeletePreset(selected)} title="Xóa phong cách" className="text-slate-400 hover:text-red-400 p-2 shrink-0">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-400 mb-1">Nên có (vd: nét mực dày, màu phẳng, bóng đổ halftone)</label>
+                                <textarea value={selected.positive} onChange={e => updatePreset(selected.id, { positive: e.target.value }, `style:${selected.id}:positive`)} rows={2} className={inputClassName} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-400 mb-1">Tránh (vd: ảnh chụp, 3D)</label>
+                                <textarea value={selected.negative} onChange={e => updatePreset(selected.id, { negative: e.target.value }, `style:${selected.id}:negative`)} rows={2} className={inputClassName} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-400 mb-1">Ảnh mẫu phong cách</label>
+                                <input type="file" multiple accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                                    {selected.referenceImages.map((img, index) => (
+                                        <div key={index} className="relative group">
+                                            <img src={`data:image/png;base64,${img}`} alt={`${selected.name} ${index + 1}`} className="rounded-md aspect-square object-cover" />
+                                            <button onClick={() => updatePreset(selected.id, { referenceImages: selected.referenceImages.filter((_, i) => i !== index) })} className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-500 text-white w-5 h-5 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity text-sm" title="Xóa ảnh mẫu">&times;</button>
+                                        </div>
+                                    ))}
+                                    <button onClick={() => fileInputRef.current?.click()} title="Thêm ảnh mẫu" className="aspect-square flex items-center justify-center border-2 border-dashed border-slate-600 rounded-md hover:bg-slate-800 hover:border-primary-500 transition-colors">
+                                        <UploadIcon className="w-6 h-6 text-slate-500" />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import type { BubbleShape, ComicImage, Scene, SpeechBubble } from '../types';
+import { BUBBLE_FONTS, BUBBLE_SHAPES, bubblesFromScene, createBubble } from '../services/speechBubbles';
+import { BubbleLayer } from './BubbleLayer';
+import { PlusIcon, TrashIcon, MagicIcon } from './icons';
+
+interface BubbleEditorProps {
+    image: ComicImage;
+    scene?: Scene; // offers to prefill from its dialogue and narration
+    onSave: (bubbles: SpeechBubble[]) => void;
+    onCancel: () => void;
+}
+
+type DragMode = 'move' | 'resize' | 'tail';
+
+interface DragState {
+    mode: DragMode;
+    bubble: SpeechBubble; // as it was when the drag started
+    startX: number; // pointer position as a fraction of the image
+    startY: number;
+}
+
+const MIN_BUBBLE_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const percent = (value: number) => `${value * 100}%`;
+
+/** Places and edits an image's bubbles on a draft; nothing is stored until the user saves. */
+export const BubbleEditor: React.FC<BubbleEditorProps> = ({ image, scene, onSave, onCancel }) => {
+    const [bubbles, setBubbles] = useState<SpeechBubble[]>(image.bubbles ?? []);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    const selected = bubbles.find(bubble => bubble.id === selectedId);
+    const canPrefill = !!scene && (!!scene.narration?.trim() || (scene.dialogue ?? []).some(line => line.text.trim()));
+
+    const updateBubble = (id: string, changes: Partial<SpeechBubble>) =>
+        setBubbles(prev => prev.map(bubble => bubble.id === id ? { ...bubble, ...changes } : bubble));
+
+    const handleAdd = (shape: BubbleShape) => {
+        const bubble = createBubble(shape);
+        setBubbles(prev => [...prev, bubble]);
+        setSelectedId(bubble.id);
+    };
+
+    const handlePrefill = () => {
+        if (!scene) return;
+        if (bubbles.length > 0 && !window.confirm('Thay các khung thoại hiện có bằng lời thoại của cảnh?')) return;
+        const prefilled = bubblesFromScene(scene);
+        setBubbles(prefilled);
+        setSelectedId(prefilled[0]?.id ?? null);
+    };
+
+    const handleDelete = (id: string) => {
+        setBubbles(prev => prev.filter(bubble => bubble.id !== id));
+        setSelectedId(null);
+    };
+
+    const toImagePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+        const stage = stageRef.current;
+        if (!stage) return null;
+        const rect = stage.getBoundingClientRect();
+        return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+
+    const startDrag = (e: React.PointerEvent<HTMLDivElement>, bubble: SpeechBubble, mode: DragMode) => {
+        e.stopPropagation();
+        const point = toImagePoint(e);
+        if (!point) return;
+        stageRef.current?.setPointerCapture(e.pointerId);
+        dragRef.current = { mode, bubble, startX: point.x, startY: point.y };
+        setSelectedId(bubble.id);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        const point = toImagePoint(e);
+        if (!drag || !point) return;
+        const dx = point.x - drag.startX;
+        const dy = point.y - drag.startY;
+        const { bubble } = drag;
+        if (drag.mode === 'move') {
+            const x = clamp(bubble.x + dx, 0, 1 - bubble.width);
+            const y = clamp(bubble.y + dy, 0, 1 - bubble.height);
+            // The tail stays on its speaker while the bubble moves.
+            updateBubble(bubble.id, { x, y });
+        } else if (drag.mode === 'resize') {
+            updateBubble(bubble.id, {
+                width: clamp(bubble.width + dx, MIN_BUBBLE_SIZE, 1 - bubble.x),
+                height: clamp(bubble.height + dy, MIN_BUBBLE_SIZE, 1 - bubble.y),
+            });
+        } else {
+            updateBubble(bubble.id, { tailX: clamp(point.x, 0, 1), tailY: clamp(point.y, 0, 1) });
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <div className="flex flex-col md:flex-row gap-4">
+            <div className="md:w-2/3">
+                <div
+                    ref={stageRef}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onPointerDown={() => setSelectedId(null)}
+                    className="relative rounded-lg overflow-hidden bg-black select-none"
+                    style={{ touchAction: 'none' }}
+                >
+                    <img
+                        src={`data:image/png;base64,${image.url}`}
+                        alt="Ảnh cần thêm lời thoại"
+                        draggable={false}
+                        onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        className="w-full h-auto block"
+                    />
+                    {size && <BubbleLayer bubbles={bubbles} width={size.width} height={size.height} />}
+                    {bubbles.map(bubble => (
+                        <div
+                            key={bubble.id}
+                            onPointerDown={e => startDrag(e, bubble, 'move')}
+                            className={`absolute cursor-move ${bubble.id === selectedId ? 'border-2 border-dashed border-primary-400' : 'hover:border hover:border-dashed hover:border-primary-400/60'}`}
+                            style={{ left: percent(bubble.x), top: percent(bubble.y), width: percent(bubble.width), height: percent(bubble.height) }}
+                        >
+                            {bubble.id === selectedId && (
+                                <div
+                                    onPointerDown={e => startDrag(e, bubble, 'resize')}
+                                    title="Kéo để đổi kích thước"
+                                    className="absolute -right-2 -bottom-2 w-4 h-4 bg-primary-500 border-2 border-white rounded-sm cursor-nwse-resize"
+                                />
+                            )}
+                        </div>
+                    ))}
+                    {selected && selected.shape !== 'caption' && (
+                        <div
+                            onPointerDown={e => startDrag(e, selected, 'tail')}
+                            title="Kéo đuôi khung thoại về phía người nói"
+                            className="absolute w-4 h-4 -ml-2 -mt-2 bg-amber-400 border-2 border-white rounded-full cursor-crosshair"
+                            style={{ left: percent(selected.tailX), top: percent(selected.tailY) }}
+                        />
+                    )}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">Kéo khung để di chuyển, kéo ô vuông ở góc để đổi kích thước, kéo chấm vàng để chỉnh đuôi về phía người nói.</p>
+            </div>
+
+            <div className="md:w-1/3 space-y-4">
+                <div className="flex flex-wrap gap-2">
+                    {BUBBLE_SHAPES.map(shape => (
+                        <button key={shape.id} onClick={() => handleAdd(shape.id)} className="bg-slate-700 hover:bg-slate-600 text-white py-1 px-3 rounded-lg text-sm flex items-center gap-1">
+                            <PlusIcon className="w-3 h-3" /> {shape.label}
+                        </button>
+                    ))}
+                </div>
+                {canPrefill && (
+                    <button onClick={handlePrefill} className="w-full bg-primary-600 hover:bg-primary-700 text-white py-2 px-3 rounded-lg text-sm flex items-center justify-center gap-2">
+                        <MagicIcon className="w-4 h-4" /> Điền từ lời thoại của cảnh
+                    </button>
+                )}
+
+                {selected ? (
+                    <div className="space-y-3 bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+                        <textarea
+                            value={selected.text}
+                            onChange={e => updateBubble(selected.id, { text: e.target.value })}
+                            rows={3}
+                            placeholder="Nội dung"
+                            className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 text-sm"
+                        />
+                        <label className="block text-sm text-slate-400">
+                            Kiểu khung
+                            <select value={selected.shape} onChange={e => updateBubble(selected.id, { shape: e.target.value as BubbleShape })} className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-white">
+                                {BUBBLE_SHAPES.map(shape => <option key={shape.id} value={shape.id}>{shape.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="block text-sm text-slate-400">
+                            Phông chữ
+                            <select value={selected.fontId} onChange={e => updateBubble(selected.id, { fontId: e.target.value })} className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-white">
+                                {BUBBLE_FONTS.map(font => <option key={font.id} value={font.id} style={{ fontFamily: font.css }}>{font.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="block text-sm text-slate-400">
+                            Cỡ chữ: <span className="text-slate-200">{selected.fontSize.toFixed(1)}</span>
+                            <input type="range" min="1.5" max="8" step="0.1" value={selected.fontSize} onChange={e => updateBubble(selected.id, { fontSize: parseFloat(e.target.value) })} className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer mt-1" />
+                        </label>
+                        <button onClick={() => handleDelete(selected.id)} className="text-sm text-slate-400 hover:text-red-400 flex items-center gap-1">
+                            <TrashIcon className="w-4 h-4" /> Xóa khung này
+                        </button>
+                    </div>
+                ) : (
+                    <p className="text-sm text-slate-500">{bubbles.length > 0 ? 'Bấm vào một khung để sửa nội dung.' : 'Chưa có khung thoại nào.'}</p>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button onClick={onCancel} className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg">Hủy</button>
+                    <button onClick={() => onSave(bubbles)} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg">Lưu</button>
+                </div>
+            </div>
+        </div>
+    );
+};
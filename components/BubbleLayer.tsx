@@ -0,0 +1,24 @@
+import React, { useEffect, useRef } from 'react';
+import type { SpeechBubble } from '../types';
+import { drawBubbles } from '../services/speechBubbles';
+
+interface BubbleLayerProps {
+    bubbles: SpeechBubble[];
+    width: number; // the image's natural size, so text wraps exactly as it will in exports
+    height: number;
+}
+
+/** Draws an image's bubbles on a transparent canvas stretched over it. */
+export const BubbleLayer: React.FC<BubbleLayerProps> = ({ bubbles, width, height }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawBubbles(ctx, bubbles, canvas.width, canvas.height);
+    }, [bubbles, width, height]);
+
+    return <canvas ref={canvasRef} width={width} height={height} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { getSavedApiKeys } from '../services/keyVault';
+import { canKeyUseModel } from '../services/apiKeyPool';
+import { modelLabels } from '../services/keyHealth';
+import { ExclamationCircleIcon } from './icons';
+
+interface CapabilityWarningProps {
+    apiKey: string | null;
+    models: string[];
+}
+
+/** Warns when the active key is known not to reach a model this step needs. */
+export const CapabilityWarning: React.FC<CapabilityWarningProps> = ({ apiKey, models }) => {
+    const [savedKeys, setSavedKeys] = useState(getSavedApiKeys);
+
+    useEffect(() => {
+        const loadKeys = () => setSavedKeys(getSavedApiKeys());
+        window.addEventListener('apiKeysUpdated', loadKeys);
+        return () => window.removeEventListener('apiKeysUpdated', loadKeys);
+    }, []);
+
+    const activeKey = savedKeys.find(key => key.value === apiKey);
+    if (!activeKey) return null;
+
+    const missing = models.filter(model => !canKeyUseModel(activeKey, model));
+    if (missing.length === 0) return null;
+
+    const uncovered = missing.filter(model =>
+        !savedKeys.some(key => key.id !== activeKey.id && key.status !== 'invalid' && canKeyUseModel(key, model)));
+    const describe = (list: string[]) => list.map(model => modelLabels[model] ?? model).join(', ');
+
+    return (
+        <div className="bg-amber-900/40 border border-amber-700 text-amber-200 px-4 py-3 rounded-lg mb-6 flex items-start gap-3 text-sm">
+            <ExclamationCircleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            {uncovered.length > 0 ? (
+                <p>Key "{activeKey.name}" không dùng được mô hình {describe(uncovered)} và không có key nào khác trong danh sách dùng được. Các thao tác cần mô hình này ở bước này sẽ thất bại. Hãy thêm một key phù hợp ở Bước 1.</p>
+            ) : (
+                <p>Key "{activeKey.name}" không dùng được mô hình {describe(missing)}. Ứng dụng sẽ tự động dùng một key khác cho các thao tác cần mô hình này.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { Character } from '../types';
+import { TrashIcon } from './icons';
+
+interface CharacterCardProps {
+    character: Character;
+    isActive: boolean; // uploads and generated images are added to the active character
+    onSelect: () => void;
+    onChange: (changes: Partial<Pick<Character, 'name' | 'description'>>) => void;
+    onRemoveReference: (index: number) => void;
+    onDelete: () => void;
+}
+
+export const CharacterCard: React.FC<CharacterCardProps> = ({ character, isActive, onSelect, onChange, onRemoveReference, onDelete }) => (
+    <div
+        onClick={onSelect}
+        className={`p-4 rounded-lg border-2 cursor-pointer transition-colors ${isActive ? 'border-primary-500 bg-slate-900/70' : 'border-slate-700 bg-slate-900/40 hover:border-slate-500'}`}
+    >
+        <div className="flex items-center gap-2 mb-2">
+            <input
+                type="text"
+                value={character.name}
+                onChange={e => onChange({ name: e.target.value })}
+                placeholder="Tên nhân vật"
+                className="flex-1 min-w-0 p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 font-semibold"
+            />
+            <button onClick={e => { e.stopPropagation(); onDelete(); }} title="Xóa nhân vật" className="text-slate-400 hover:text-red-400 p-2 shrink-0">
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+        <textarea
+            value={character.description}
+            onChange={e => onChange({ description: e.target.value })}
+            placeholder="Mô tả ngoại hình (được thêm vào mô tả của mọi cảnh có nhân vật này)"
+            rows={2}
+            className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 text-sm mb-3"
+        />
+        {character.referenceImages.length > 0 ? (
+            <div className="grid grid-cols-4 gap-2">
+                {character.referenceImages.map((img, index) => (
+                    <div key={index} className="relative group">
+                        <img src={`data:image/png;base64,${img}`} alt={`${character.name} ${index + 1}`} className="rounded-md aspect-square object-cover" />
+                        <button onClick={e => { e.stopPropagation(); onRemoveReference(index); }} className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-500 text-white w-5 h-5 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity text-sm" title="Xóa khỏi bộ tham chiếu">&times;</button>
+                    </div>
+                ))}
+            </div>
+        ) : (
+            <p className="text-xs text-slate-500">Chưa có ảnh tham chiếu. {isActive ? 'Tải lên hoặc tạo ảnh bên dưới.' : 'Chọn nhân vật này để thêm ảnh.'}</p>
+        )}
+    </div>
+);
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { CharacterStep } from './CharacterStep';
+import { createMockProvider } from '../services/mockProvider';
+import type { MockScenario } from '../services/mockProvider';
+import { defaultArtStyleSettings } from '../services/artStyles';
+import { cancelAllJobs, clearFinishedJobs } from '../services/jobQueue';
+import type { ArtStyleSettings, Character, PromptTemplateOverrides } from '../types';
+
+// The step keeps its roster in App; plain state stands in for the history setters.
+const Harness = ({ scenario }: { scenario: MockScenario }) => {
+    const [artStyle, setArtStyle] = useState<ArtStyleSettings>(defaultArtStyleSettings);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOverrides>({});
+    const [characters, setCharacters] = useState<Character[]>([]);
+    return (
+        <CharacterStep
+            provider={createMockProvider(scenario)}
+            artStyle={artStyle}
+            setArtStyle={setArtStyle}
+            promptTemplates={promptTemplates}
+            setPromptTemplates={setPromptTemplates}
+            characters={characters}
+            setCharacters={setCharacters}
+            onNext={() => {}}
+        />
+    );
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    // Failed jobs are logged; the assertions look at what the step shows instead.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    cleanup();
+    cancelAllJobs();
+    clearFinishedJobs();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('CharacterStep with the mock provider', () => {
+    it.each<[MockScenario, string]>([
+        ['quota', 'vượt quá hạn ngạch API (lỗi 429)'],
+        ['forbidden', 'API Key không hợp lệ'],
+        ['safety', 'Ảnh đã bị bộ lọc an toàn chặn'],
+        ['empty', 'Không thể tạo ảnh từ AI.'],
+        ['text-instead-of-image', 'Không thể tạo ảnh từ AI.'],
+    ])('%s: shows the error and marks the generated image as failed', async (scenario, expected) => {
+        const { container } = render(<Harness scenario={scenario} />);
+        fireEvent.change(screen.getByPlaceholderText(/Mô tả nhân vật/), { target: { value: 'một cô gái tóc đỏ' } });
+        fireEvent.click(screen.getByRole('button', { name: /Tạo nhân vật/ }));
+
+        // Quota errors are retried with backoff before the job gives up.
+        await act(() => vi.runAllTimersAsync());
+
+        expect(screen.getByText(expected, { exact: false })).toBeTruthy();
+        expect(container.querySelector('[data-status="error"]')).not.toBeNull();
+    });
+});
@@ -1,54 +1,134 @@
 
 import React, { useState, useRef } from 'react';
-import { generateImageFromText, editImageWithPrompt } from '../services/geminiService';
-import { fileToBase64, markApiKeyAsInvalid, parseGeminiError } from '../services/utils';
+import type { AiProvider, RequestOptions } from '../services/aiProvider';
+import { fileToBase64, parseGeminiError, isAbortError } from '../services/utils';
+import { enqueueJob, runJob, cancelJobs } from '../services/jobQueue';
+import { withEditedRevision, withRestoredRevision, forkRevision } from '../services/imageRevisions';
 import { Spinner } from './Spinner';
 import { Modal } from './Modal';
-import { UploadIcon, MagicIcon, NextIcon, EditIcon, TrashIcon, ZoomInIcon, DownloadIcon } from './icons';
-import type { ComicImage } from '../types';
+import { RevisionCompare } from './RevisionCompare';
+import { ForceNewToggle } from './ForceNewToggle';
+import { CharacterCard } from './CharacterCard';
+import { ArtStylePanel } from './ArtStylePanel';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { TurnaroundSheetCard } from './TurnaroundSheetCard';
+import { MaskEditor, EditScopeToggle } from './MaskEditor';
+import { UploadIcon, MagicIcon, NextIcon, EditIcon, TrashIcon, ZoomInIcon, DownloadIcon, HistoryIcon, PlusIcon } from './icons';
+import { createCharacter } from '../services/characterRoster';
+import { getSelectedStyle, withArtStyleText } from '../services/artStyles';
+import { editMaskedRegion } from '../services/imageMask';
+import { buildCharacterPrompt, buildTurnaroundPrompt } from '../services/promptTemplates';
+import type { RenderedPrompt } from '../services/promptTemplates';
+import { TURNAROUND_VIEWS, ANCHOR_VIEW, createTurnaroundSheet, getSheetImages } from '../services/turnaroundSheet';
+import type { TurnaroundSheet, TurnaroundView } from '../services/turnaroundSheet';
+import type { HistorySetter } from '../hooks/useHistory';
+import type { ArtStyleSettings, Character, ComicImage, ImageRevision, PromptTemplateOverrides } from '../types';
 
+const apiAspectRatioMapping: { [key: string]: string } = {
+    '1:1': '1:1',
+    '16:9': '16:9',
+    '9:16': '9:16',
+    '4:5': '3:4' 
+};
 
 interface CharacterStepProps {
-    apiKey: string | null;
-    referenceImages: string[];
-    setReferenceImages: (images: string[]) => void;
+    provider: AiProvider | null;
+    notice?: React.ReactNode; // e.g. a warning about the provider, shown under the heading
+    artStyle: ArtStyleSettings;
+    setArtStyle: HistorySetter<ArtStyleSettings>;
+    promptTemplates: PromptTemplateOverrides;
+    setPromptTemplates: HistorySetter<PromptTemplateOverrides>;
+    characters: Character[];
+    setCharacters: HistorySetter<Character[]>;
     onNext: () => void;
 }
 
-export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceImages, setReferenceImages, onNext }) => {
+export const CharacterStep: React.FC<CharacterStepProps> = ({ provider, notice, artStyle, setArtStyle, promptTemplates, setPromptTemplates, characters, setCharacters, onNext }) => {
+    const [activeCharacterId, setActiveCharacterId] = useState<string | null>(null);
     const [characterPrompt, setCharacterPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState('1:1');
+    const [generationMode, setGenerationMode] = useState<'single' | 'turnaround'>('single');
     const [generatedImages, setGeneratedImages] = useState<ComicImage[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
+    const [sheets, setSheets] = useState<TurnaroundSheet[]>([]);
     const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const [editingImage, setEditingImage] = useState<ComicImage | null>(null);
     const [viewingImage, setViewingImage] = useState<string | null>(null);
+    const [comparingImageId, setComparingImageId] = useState<string | null>(null);
     const [editPrompt, setEditPrompt] = useState('');
+    const [isMaskingEdit, setIsMaskingEdit] = useState(false);
+    const [editMask, setEditMask] = useState<string | null>(null);
     const [isEditing, setIsEditing] = useState(false);
+    const [forceNew, setForceNew] = useState(false);
+    const [forceNewEdit, setForceNewEdit] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
 
+    const activeCharacter = characters.find(character => character.id === activeCharacterId) ?? characters[0];
+    const style = getSelectedStyle(artStyle);
+
+    // Text-to-image calls cannot carry reference images, so a prompt that comes with some (e.g. style references) draws from them instead.
+    const generateCharacterImage = (activeProvider: AiProvider, { prompt, references }: RenderedPrompt, apiAspectRatio: string, options: RequestOptions) =>
+        references.length > 0
+            ? activeProvider.generateSceneImage(references, prompt, options)
+            : activeProvider.generateImageFromText(prompt, apiAspectRatio, options);
+
+    const updateCharacter = (id: string, changes: Partial<Character>, coalesceKey?: string) => {
+        setCharacters(prev => prev.map(character => character.id === id ? { ...character, ...changes } : character), coalesceKey ? { coalesceKey } : undefined);
+    };
+
+    const handleAddCharacter = () => {
+        const character = createCharacter(`Nhân vật ${characters.length + 1}`);
+        setCharacters([...characters, character]);
+        setActiveCharacterId(character.id);
+    };
+
+    const handleDeleteCharacter = (character: Character) => {
+        if (character.referenceImages.length > 0 && !window.confirm(`Xóa nhân vật "${character.name}" cùng các ảnh tham chiếu của nhân vật này?`)) return;
+        setCharacters(characters.filter(c => c.id !== character.id));
+    };
+
+    // Images go to the active character; the first one is created on demand.
+    const addReferenceImages = (images: string[]) => {
+        if (!activeCharacter) {
+            const character = { ...createCharacter('Nhân vật 1'), referenceImages: images };
+            setCharacters([character]);
+            setActiveCharacterId(character.id);
+            return;
+        }
+        const newImages = images.filter(img => !activeCharacter.referenceImages.includes(img));
+        if (newImages.length > 0) {
+            updateCharacter(activeCharacter.id, { referenceImages: [...activeCharacter.referenceImages, ...newImages] });
+        }
+    };
+
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         if (event.target.files) {
             const files = Array.from(event.target.files);
             const base64Promises = files.map((file: File) => fileToBase64(file));
             try {
                 const base64Images = await Promise.all(base64Promises);
-                setReferenceImages([...referenceImages, ...base64Images]);
+                addReferenceImages(base64Images);
             } catch (err) {
                 setError("Không thể tải tệp lên. Vui lòng thử lại.");
             }
         }
     };
 
-    const handleGenerateClick = async () => {
-        if (!apiKey || !characterPrompt) {
+    const handleGenerateClick = () => {
+        // An empty prompt falls back to the active character's description.
+        const description = characterPrompt || activeCharacter?.description;
+        if (!provider || !description) {
             setError("Vui lòng nhập mô tả nhân vật và đảm bảo API key đã được cấu hình.");
             return;
         }
-        setIsLoading(true);
         setError(null);
+        if (generationMode === 'turnaround') {
+            const sheet = createTurnaroundSheet(description);
+            setSheets(prev => [...prev, sheet]);
+            queueTurnaroundAnchor(sheet, TURNAROUND_VIEWS.filter(view => view.id !== ANCHOR_VIEW));
+            return;
+        }
         
         const newImagePlaceholder: ComicImage = {
             id: `gen-img-${Date.now()}`,
@@ -57,43 +137,92 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
             status: 'generating',
             duration: 3,
         };
+        const setPlaceholder = (changes: Partial<ComicImage>) => setGeneratedImages(prev => prev.map(img =>
+            img.id === newImagePlaceholder.id ? { ...img, ...changes } : img
+        ));
+
+        const apiAspectRatio = apiAspectRatioMapping[aspectRatio] || '1:1';
+        const rendered = buildCharacterPrompt(promptTemplates, description, style);
+        enqueueJob<string>({
+            label: 'Tạo nhân vật',
+            run: signal => generateCharacterImage(provider, rendered, apiAspectRatio, { signal, forceNew }),
+            onQueued: () => setPlaceholder({ status: 'generating' }),
+            onSuccess: imageBytes => setPlaceholder({ url: imageBytes, status: 'done' }),
+            onFailure: (err, cancelled) => {
+                if (!cancelled) setError(parseGeminiError(err));
+                setPlaceholder({ status: 'error' });
+            },
+        });
         setGeneratedImages(prev => [...prev, newImagePlaceholder]);
+    };
+    
+    const updateSheetPanel = (sheetId: string, view: TurnaroundView, changes: Partial<ComicImage>) => setSheets(prev => prev.map(sheet =>
+        sheet.id === sheetId ? { ...sheet, panels: { ...sheet.panels, [view.id]: { ...sheet.panels[view.id], ...changes } } } : sheet
+    ));
 
-        try {
-            const apiAspectRatioMapping: { [key: string]: string } = {
-                '1:1': '1:1',
-                '16:9': '16:9',
-                '9:16': '9:16',
-                '4:5': '3:4' 
-            };
-            const apiAspectRatio = apiAspectRatioMapping[aspectRatio] || '1:1';
-            const imageBytes = await generateImageFromText(apiKey, `A full-body character reference sheet for a comic book character. Description: ${characterPrompt}. Style: clean lines, simple colors, white background.`, apiAspectRatio);
-            setGeneratedImages(prev => prev.map(img => 
-                img.id === newImagePlaceholder.id ? { ...img, url: imageBytes, status: 'done' } : img
-            ));
-        } catch (err: unknown) {
-            const friendlyError = parseGeminiError(err);
-            if (apiKey && friendlyError.toLowerCase().includes('api key')) {
-                 markApiKeyAsInvalid(apiKey);
-            }
-            setError(friendlyError);
-            setGeneratedImages(prev => prev.map(img => 
-                img.id === newImagePlaceholder.id ? { ...img, status: 'error' } : img
-            ));
-            console.error(err);
-        } finally {
-            setIsLoading(false);
+    // The other panels wait for the front view, since it is the reference they are drawn from.
+    const queueTurnaroundAnchor = (sheet: TurnaroundSheet, dependents: TurnaroundView[]) => {
+        if (!provider) return;
+        const anchor = TURNAROUND_VIEWS.find(view => view.id === ANCHOR_VIEW)!;
+        const rendered = buildTurnaroundPrompt(promptTemplates, sheet.description, anchor, style);
+        const apiAspectRatio = apiAspectRatioMapping[aspectRatio] || '1:1';
+        [anchor, ...dependents].forEach(view => updateSheetPanel(sheet.id, view, { status: 'generating' }));
+        enqueueJob<string>({
+            label: `Bộ nhân vật: ${anchor.label}`,
+            group: sheet.id,
+            run: signal => generateCharacterImage(provider, rendered, apiAspectRatio, { signal, forceNew }),
+            onQueued: () => updateSheetPanel(sheet.id, anchor, { status: 'generating' }),
+            onSuccess: imageBytes => {
+                updateSheetPanel(sheet.id, anchor, { url: imageBytes, status: 'done' });
+                dependents.forEach(view => queueTurnaroundPanel(sheet, view, imageBytes));
+            },
+            onFailure: (err, cancelled) => {
+                if (!cancelled) setError(parseGeminiError(err));
+                [anchor, ...dependents].forEach(view => updateSheetPanel(sheet.id, view, { status: 'error' }));
+            },
+        });
+    };
+
+    const queueTurnaroundPanel = (sheet: TurnaroundSheet, view: TurnaroundView, anchorImage: string) => {
+        if (!provider) return;
+        const rendered = buildTurnaroundPrompt(promptTemplates, sheet.description, view, style, anchorImage);
+        enqueueJob<string>({
+            label: `Bộ nhân vật: ${view.label}`,
+            group: sheet.id,
+            run: signal => provider.generateSceneImage(rendered.references, rendered.prompt, { signal, forceNew }),
+            onQueued: () => updateSheetPanel(sheet.id, view, { status: 'generating' }),
+            onSuccess: imageBytes => updateSheetPanel(sheet.id, view, { url: imageBytes, status: 'done' }),
+            onFailure: (err, cancelled) => {
+                if (!cancelled) setError(parseGeminiError(err));
+                updateSheetPanel(sheet.id, view, { status: 'error' });
+            },
+        });
+    };
+
+    const handleRetrySheetPanel = (sheet: TurnaroundSheet, view: TurnaroundView) => {
+        setError(null);
+        const anchorPanel = sheet.panels[ANCHOR_VIEW];
+        if (view.id === ANCHOR_VIEW || anchorPanel.status !== 'done') {
+            queueTurnaroundAnchor(sheet, TURNAROUND_VIEWS.filter(v => v.id !== ANCHOR_VIEW && sheet.panels[v.id].status === 'error'));
+            return;
         }
+        updateSheetPanel(sheet.id, view, { status: 'generating' });
+        queueTurnaroundPanel(sheet, view, anchorPanel.url);
     };
-    
+
+    const handleDeleteSheet = (sheet: TurnaroundSheet) => {
+        cancelJobs(sheet.id);
+        setSheets(prev => prev.filter(s => s.id !== sheet.id));
+    };
+
     const addGeneratedToReferences = (imageToAdd: ComicImage) => {
-        if(imageToAdd.url && !referenceImages.includes(imageToAdd.url)){
-            setReferenceImages([...referenceImages, imageToAdd.url]);
+        if (imageToAdd.url) {
+            addReferenceImages([imageToAdd.url]);
         }
     }
     
-    const removeReferenceImage = (index: number) => {
-        setReferenceImages(referenceImages.filter((_, i) => i !== index));
+    const removeReferenceImage = (character: Character, index: number) => {
+        updateCharacter(character.id, { referenceImages: character.referenceImages.filter((_, i) => i !== index) });
     }
 
     const handleDeleteGeneratedImage = (id: string) => {
@@ -109,30 +238,58 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
     const openEditModal = (image: ComicImage) => {
         setEditingImage(image);
         setEditPrompt('');
+        setIsMaskingEdit(false);
+        setEditMask(null);
+    };
+
+    // The mask editor starts blank each time it opens, so a mask painted earlier must not linger unseen.
+    const handleEditScopeChange = (isMasking: boolean) => {
+        setIsMaskingEdit(isMasking);
+        setEditMask(null);
     };
 
     const handleEditImage = async () => {
-        if (!apiKey || !editingImage || !editPrompt) return;
+        if (!provider || !editingImage || !editPrompt) return;
         setIsEditing(true);
         setError(null);
         try {
             const { id, url } = editingImage;
-            const newImageBase64 = await editImageWithPrompt(apiKey, url, 'image/png', editPrompt);
+            const prompt = withArtStyleText(editPrompt, style);
+            const mask = isMaskingEdit ? editMask : null;
+            const newImageBase64 = await runJob<string>({
+                label: 'Chỉnh sửa ảnh nhân vật',
+                run: signal => mask
+                    ? editMaskedRegion(provider, url, mask, prompt, { signal, forceNew: forceNewEdit })
+                    : provider.editImageWithPrompt(url, 'image/png', prompt, { signal, forceNew: forceNewEdit }),
+            });
             setGeneratedImages(prev => prev.map(img => 
-                img.id === id ? { ...img, url: newImageBase64 } : img
+                img.id === id ? withEditedRevision(img, newImageBase64, editPrompt) : img
             ));
             setEditingImage(null);
         } catch (error: unknown) {
-            const friendlyError = parseGeminiError(error);
-             if (apiKey && friendlyError.toLowerCase().includes('api key')) {
-                markApiKeyAsInvalid(apiKey);
-            }
-            setError(friendlyError);
+            if (!isAbortError(error)) setError(parseGeminiError(error));
         } finally {
             setIsEditing(false);
         }
     };
     
+    const previewDescription = characterPrompt || activeCharacter?.description || '';
+    const isLoading = generatedImages.some(img => img.status === 'generating')
+        || sheets.some(sheet => TURNAROUND_VIEWS.some(view => sheet.panels[view.id].status === 'generating'));
+    const comparedImage = generatedImages.find(img => img.id === comparingImageId);
+
+    const handleRestoreRevision = (revision: ImageRevision) => {
+        setGeneratedImages(prev => prev.map(img =>
+            img.id === comparingImageId ? withRestoredRevision(img, revision) : img
+        ));
+    };
+
+    const handleForkRevision = (revision: ImageRevision) => {
+        if (!comparedImage) return;
+        setGeneratedImages(prev => [...prev, forkRevision(comparedImage, revision)]);
+        setComparingImageId(null);
+    };
+
     const handleDownloadSelected = async () => {
         if (typeof (window as any).JSZip === 'undefined') {
             setError('Lỗi: Thư viện nén file (JSZip) chưa được tải. Vui lòng kiểm tra kết nối mạng và làm mới trang.');
@@ -177,10 +334,53 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
     return (
         <div>
             <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Bước 2: Tạo nhân vật tham chiếu</h2>
-            <p className="text-slate-400 mb-8 text-center max-w-2xl mx-auto">Tải lên hoặc dùng AI để tạo hình ảnh nhân vật chính. Những ảnh này sẽ được dùng để giữ sự nhất quán trong các cảnh truyện.</p>
+            <p className="text-slate-400 mb-8 text-center max-w-2xl mx-auto">Tạo danh sách nhân vật, mỗi nhân vật có tên, mô tả và ảnh tham chiếu riêng. Ở bước 3, mỗi cảnh chỉ dùng ảnh của những nhân vật xuất hiện trong cảnh đó.</p>
             
+            {notice}
+
+            <ArtStylePanel artStyle={artStyle} setArtStyle={setArtStyle} />
+
+            <PromptTemplatePanel
+                templateIds={['character', 'turnaroundFront', 'turnaroundView']}
+                overrides={promptTemplates}
+                setOverrides={setPromptTemplates}
+                previews={{
+                    character: buildCharacterPrompt(promptTemplates, previewDescription, style).prompt,
+                    turnaroundFront: buildTurnaroundPrompt(promptTemplates, previewDescription, TURNAROUND_VIEWS[0], style).prompt,
+                    // Any anchor selects the follow-up template; the image itself only changes the attachments, not the text.
+                    turnaroundView: buildTurnaroundPrompt(promptTemplates, previewDescription, TURNAROUND_VIEWS[1], style, '').prompt,
+                }}
+            />
+
             {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-6 text-center">{error}</div>}
 
+            <div className="mb-8">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-semibold">Danh sách nhân vật</h3>
+                    <button onClick={handleAddCharacter} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center gap-2">
+                        <PlusIcon className="w-4 h-4" /> Thêm nhân vật
+                    </button>
+                </div>
+                {characters.length === 0 ? (
+                    <p className="text-slate-400 text-sm text-center">Chưa có nhân vật nào. Ảnh bạn tải lên hoặc thêm từ AI sẽ tạo nhân vật đầu tiên.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {characters.map(character => (
+                            <CharacterCard
+                                key={character.id}
+                                character={character}
+                                isActive={character.id === activeCharacter?.id}
+                                onSelect={() => setActiveCharacterId(character.id)}
+                                onChange={changes => updateCharacter(character.id, changes, `character:${character.id}:${Object.keys(changes).join(',')}`)}
+                                onRemoveReference={index => removeReferenceImage(character, index)}
+                                onDelete={() => handleDeleteCharacter(character)}
+                            />
+                        ))}
+                    </div>
+                )}
+                {activeCharacter && <p className="text-sm text-slate-400 mt-3">Ảnh mới sẽ được thêm vào <span className="font-semibold text-primary-400">{activeCharacter.name || 'nhân vật đang chọn'}</span>.</p>}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 {/* Upload Section */}
                 <div className="bg-slate-900/50 p-6 rounded-lg border border-slate-700">
@@ -195,7 +395,7 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
                 {/* AI Generation Section */}
                 <div className="bg-slate-900/50 p-6 rounded-lg border border-slate-700">
                     <h3 className="text-xl font-semibold mb-4 text-center">Tạo nhân vật bằng AI</h3>
-                    <textarea value={characterPrompt} onChange={e => setCharacterPrompt(e.target.value)} placeholder="Mô tả nhân vật (vd: chàng trai tóc xanh, mặc áo khoác phi công, mắt màu hổ phách...)" rows={3} className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 mb-4"></textarea>
+                    <textarea value={characterPrompt} onChange={e => setCharacterPrompt(e.target.value)} placeholder="Mô tả nhân vật (vd: chàng trai tóc xanh, mặc áo khoác phi công, mắt màu hổ phách...). Để trống để dùng mô tả của nhân vật đang chọn." rows={3} className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 mb-4"></textarea>
                      <div className="flex justify-center items-center flex-wrap gap-2 mb-4">
                         <span className="text-slate-400 text-sm self-center mr-2">Tỉ lệ khung hình:</span>
                         {['1:1', '16:9', '9:16', '4:5'].map(ratio => (
@@ -212,12 +412,43 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
                             </label>
                         ))}
                     </div>
-                    <button onClick={handleGenerateClick} disabled={isLoading || !apiKey} className="w-full bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600 disabled:cursor-not-allowed">
-                        {isLoading ? <><Spinner /> Đang tạo...</> : <><MagicIcon className="w-5 h-5" /> Tạo nhân vật</>}
+                    <div className="flex justify-center items-center flex-wrap gap-2 mb-4">
+                        <span className="text-slate-400 text-sm self-center mr-2">Chế độ:</span>
+                        {([['single', 'Một ảnh'], ['turnaround', 'Bộ góc nhìn & biểu cảm']] as const).map(([mode, label]) => (
+                            <button key={mode} onClick={() => setGenerationMode(mode)} className={`px-3 py-1 text-sm rounded-full transition-colors ${generationMode === mode ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {generationMode === 'turnaround' && (
+                        <p className="text-xs text-slate-500 mb-4 text-center">Tạo ảnh chính diện trước, rồi dùng ảnh đó làm tham chiếu cho góc ba phần tư, phía sau và các biểu cảm vui, giận, buồn, ngạc nhiên.</p>
+                    )}
+                    <ForceNewToggle provider={provider} checked={forceNew} onChange={setForceNew} />
+                    <button onClick={handleGenerateClick} disabled={isLoading || !provider} className="w-full bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                        {isLoading ? <><Spinner /> Đang tạo...</> : <><MagicIcon className="w-5 h-5" /> {generationMode === 'turnaround' ? 'Tạo bộ nhân vật' : 'Tạo nhân vật'}</>}
                     </button>
                 </div>
             </div>
 
+            {sheets.length > 0 && (
+                <div className="mt-8">
+                    <h3 className="text-xl font-semibold mb-4">Bộ nhân vật</h3>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                        {sheets.map(sheet => (
+                            <TurnaroundSheetCard
+                                key={sheet.id}
+                                sheet={sheet}
+                                targetName={activeCharacter?.name || 'tham chiếu'}
+                                onAddToReferences={() => addReferenceImages(getSheetImages(sheet))}
+                                onRetry={view => handleRetrySheetPanel(sheet, view)}
+                                onView={setViewingImage}
+                                onDelete={() => handleDeleteSheet(sheet)}
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {generatedImages.length > 0 && (
                 <div className="mt-8">
                     <div className="flex justify-between items-center mb-4">
@@ -247,9 +478,12 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
                                             <div className="flex gap-1">
                                                 <button onClick={() => setViewingImage(image.url)} title="Phóng to" className="bg-blue-600 hover:bg-blue-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><ZoomInIcon className="w-4 h-4"/></button>
                                                 <button onClick={() => openEditModal(image)} title="Chỉnh sửa" className="bg-green-600 hover:bg-green-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><EditIcon className="w-4 h-4"/></button>
+                                                {image.revisions && image.revisions.length > 1 && (
+                                                    <button onClick={() => setComparingImageId(image.id)} title="Lịch sử chỉnh sửa" className="bg-purple-600 hover:bg-purple-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><HistoryIcon className="w-4 h-4"/></button>
+                                                )}
                                                 <button onClick={() => handleDeleteGeneratedImage(image.id)} title="Xóa" className="bg-red-600 hover:bg-red-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><TrashIcon className="w-4 h-4"/></button>
                                             </div>
-                                            <button onClick={() => addGeneratedToReferences(image)} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-1 px-3 text-xs rounded-md w-full max-w-[90%]">Thêm vào tham chiếu</button>
+                                            <button onClick={() => addGeneratedToReferences(image)} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-1 px-3 text-xs rounded-md w-full max-w-[90%]">Thêm vào {activeCharacter?.name || 'tham chiếu'}</button>
                                         </div>
                                         <input type="checkbox" checked={image.isSelected} onChange={() => handleToggleSelectImage(image.id)} className="absolute top-2 right-2 form-checkbox h-5 w-5 text-primary-600 bg-gray-800 border-gray-600 rounded focus:ring-primary-500" />
                                     </>
@@ -260,40 +494,34 @@ export const CharacterStep: React.FC<CharacterStepProps> = ({ apiKey, referenceI
                 </div>
             )}
 
-            {referenceImages.length > 0 && (
-                <div className="mt-8">
-                    <h3 className="text-xl font-semibold mb-4 text-center">Bộ ảnh tham chiếu (dùng cho bước 3)</h3>
-                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                        {referenceImages.map((img, index) => (
-                            <div key={index} className="relative group">
-                                <img src={`data:image/png;base64,${img}`} alt={`Reference ${index + 1}`} className="rounded-lg aspect-square object-cover" />
-                                <button onClick={() => removeReferenceImage(index)} className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-500 text-white w-6 h-6 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity" title="Xóa khỏi bộ tham chiếu">&times;</button>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            )}
-            
             <div className="flex justify-end mt-12">
-                <button onClick={onNext} disabled={referenceImages.length === 0} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                <button onClick={onNext} disabled={!characters.some(character => character.referenceImages.length > 0)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed">
                     Tiếp tục <NextIcon className="w-5 h-5"/>
                 </button>
             </div>
 
-            <Modal isOpen={!!editingImage} onClose={() => setEditingImage(null)} title="Chỉnh sửa ảnh bằng AI" showCloseButton={false}>
+            <Modal isOpen={!!editingImage} onClose={() => setEditingImage(null)} title="Chỉnh sửa ảnh bằng AI" showCloseButton={false} maxWidthClassName={isMaskingEdit ? 'max-w-2xl' : 'max-w-lg'}>
                 <div className="space-y-4">
-                    {editingImage && <img src={`data:image/png;base64,${editingImage.url}`} alt="Editing preview" className="rounded-lg max-h-64 mx-auto" />}
-                    <p className="text-slate-300">Nhập mô tả để AI tạo lại hình ảnh này.</p>
+                    <EditScopeToggle isMasking={isMaskingEdit} onChange={handleEditScopeChange} />
+                    {editingImage && (isMaskingEdit
+                        ? <MaskEditor key={editingImage.id} imageBase64={editingImage.url} onChange={setEditMask} />
+                        : <img src={`data:image/png;base64,${editingImage.url}`} alt="Editing preview" className="rounded-lg max-h-64 mx-auto" />)}
+                    <p className="text-slate-300">{isMaskingEdit ? 'Nhập mô tả thay đổi cho vùng đã tô.' : 'Nhập mô tả để AI tạo lại hình ảnh này.'}</p>
                     <textarea value={editPrompt} onChange={(e) => setEditPrompt(e.target.value)} rows={3} placeholder="Ví dụ: thêm một chiếc mũ màu đỏ" className="w-full p-2 bg-slate-900 border border-slate-700 rounded-md focus:ring-primary-500 focus:border-primary-500"></textarea>
+                    <ForceNewToggle provider={provider} checked={forceNewEdit} onChange={setForceNewEdit} />
                     <div className="flex justify-end gap-3 pt-2">
                         <button onClick={() => setEditingImage(null)} className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg">Hủy</button>
-                        <button onClick={handleEditImage} disabled={isEditing || !apiKey} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
+                        <button onClick={handleEditImage} disabled={isEditing || !provider || (isMaskingEdit && !editMask)} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
                            {isEditing ? <><Spinner /> Đang xử lý...</> : "Tạo lại ảnh"}
                         </button>
                     </div>
                 </div>
             </Modal>
             
+            <Modal isOpen={!!comparedImage} onClose={() => setComparingImageId(null)} title="Lịch sử chỉnh sửa ảnh" maxWidthClassName="max-w-3xl">
+                {comparedImage && <RevisionCompare image={comparedImage} onRestore={handleRestoreRevision} onFork={handleForkRevision} />}
+            </Modal>
+
             <Modal isOpen={!!viewingImage} onClose={() => setViewingImage(null)} title="Xem ảnh">
                 {viewingImage && <img src={`data:image/png;base64,${viewingImage}`} alt="Xem trước ảnh" className="w-full h-auto rounded-lg" />}
             </Modal>
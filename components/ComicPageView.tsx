@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import type { ComicImage, ComicPage, PageStyle, PanelCrop } from '../types';
+import { PAGE_WIDTH, PAGE_HEIGHT, getFrameRects, getPanelSourceRect } from '../services/comicPages';
+import type { FrameRect } from '../services/comicPages';
+import { BubbleLayer } from './BubbleLayer';
+
+// Drag payloads between the image tray and the panels.
+export const PANEL_DRAG_TYPE = 'application/x-comic-panel';
+export const IMAGE_DRAG_TYPE = 'application/x-comic-image';
+
+interface ComicPageViewProps {
+    page: ComicPage;
+    style: PageStyle;
+    imagesById: Map<string, ComicImage>;
+    selectedIndex: number | null;
+    onSelectPanel: (index: number | null) => void;
+    onDropOnPanel: (index: number, dataTransfer: DataTransfer) => void;
+    onCropChange: (index: number, crop: PanelCrop) => void;
+}
+
+const percentX = (value: number) => `${(value / PAGE_WIDTH) * 100}%`;
+const percentY = (value: number) => `${(value / PAGE_HEIGHT) * 100}%`;
+// Border widths are in page units too; the page is a size container, so cqw scales them with it.
+const pageUnits = (value: number) => `${(value / PAGE_WIDTH) * 100}cqw`;
+
+interface PanelImageProps {
+    image: ComicImage;
+    crop: PanelCrop;
+    frame: FrameRect;
+    canPan: boolean;
+    onCropChange: (crop: PanelCrop) => void;
+}
+
+/** An image and its bubbles cropped into a frame. While `canPan` is set, dragging it moves the crop. */
+const PanelImage: React.FC<PanelImageProps> = ({ image, crop, frame, canPan, onCropChange }) => {
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const panStartRef = useRef<{ x: number; y: number; focusX: number; focusY: number } | null>(null);
+    const source = size && getPanelSourceRect(size.width, size.height, frame.width, frame.height, crop);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!canPan || !source || !size) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        // Start from where the crop actually is; a focus near the edge may have been clamped.
+        panStartRef.current = {
+            x: e.clientX,
+            y: e.clientY,
+            focusX: (source.x + source.width / 2) / size.width,
+            focusY: (source.y + source.height / 2) / size.height,
+        };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = panStartRef.current;
+        const frameElement = e.currentTarget.parentElement;
+        if (!start || !source || !size || !frameElement) return;
+        const rect = frameElement.getBoundingClientRect();
+        const imagePixelsPerScreenPixel = source.width / rect.width;
+        const clampFocus = (value: number, visible: number, total: number) =>
+            Math.max(visible / 2 / total, Math.min(value, 1 - visible / 2 / total));
+        onCropChange({
+            ...crop,
+            focusX: clampFocus(start.focusX - ((e.clientX - start.x) * imagePixelsPerScreenPixel) / size.width, source.width, size.width),
+            focusY: clampFocus(start.focusY - ((e.clientY - start.y) * imagePixelsPerScreenPixel) / size.height, source.height, size.height),
+        });
+    };
+
+    const handlePointerUp = () => {
+        panStartRef.current = null;
+    };
+
+    return (
+        <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute select-none ${canPan ? 'cursor-move' : ''}`}
+            style={source && size ? {
+                left: `${(-source.x / source.width) * 100}%`,
+                top: `${(-source.y / source.height) * 100}%`,
+                width: `${(size.width / source.width) * 100}%`,
+                height: `${(size.height / source.height) * 100}%`,
+                touchAction: canPan ? 'none' : undefined,
+            } : { inset: 0 }}
+        >
+            <img
+                src={`data:image/png;base64,${image.url}`}
+                alt=""
+                draggable={false}
+                onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className={`block w-full h-full max-w-none ${size ? '' : 'object-cover'}`}
+            />
+            {size && image.bubbles && <BubbleLayer bubbles={image.bubbles} width={size.width} height={size.height} />}
+        </div>
+    );
+};
+
+/**
+ * One page as it will be printed. Panels with an image can be dragged onto other panels to swap them;
+ * the selected panel is panned by dragging its image instead.
+ */
+export const ComicPageView: React.FC<ComicPageViewProps> = ({ page, style, imagesById, selectedIndex, onSelectPanel, onDropOnPanel, onCropChange }) => {
+    const [dropTarget, setDropTarget] = useState<number | null>(null);
+    const frames = getFrameRects(page.layoutId, style);
+
+    return (
+        <div
+            className="relative w-full shadow-lg"
+            style={{ aspectRatio: `${PAGE_WIDTH} / ${PAGE_HEIGHT}`, backgroundColor: style.backgroundColor, containerType: 'inline-size' }}
+            onClick={() => onSelectPanel(null)}
+        >
+            {frames.map((frame, index) => {
+                const panel = page.panels[index];
+                const image = panel?.imageId ? imagesById.get(panel.imageId) : undefined;
+                const isSelected = selectedIndex === index;
+                return (
+                    <div
+                        key={index}
+                        draggable={!!image && !isSelected}
+                        onDragStart={e => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData(PANEL_DRAG_TYPE, JSON.stringify({ pageId: page.id, index }));
+                        }}
+                        onDragOver={e => {
+                            e.preventDefault();
+                            setDropTarget(index);
+                        }}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={e => {
+                            e.preventDefault();
+                            setDropTarget(null);
+                            onDropOnPanel(index, e.dataTransfer);
+                        }}
+                        onClick={e => {
+                            e.stopPropagation();
+                            onSelectPanel(index);
+                        }}
+                        className={`absolute overflow-hidden ${image ? (isSelected ? '' : 'cursor-grab') : 'bg-slate-200'}`}
+                        style={{ left: percentX(frame.x), top: percentY(frame.y), width: percentX(frame.width), height: percentY(frame.height) }}
+                    >
+                        {image ? (
+                            <PanelImage image={image} crop={panel.crop} frame={frame} canPan={isSelected} onCropChange={crop => onCropChange(index, crop)} />
+                        ) : (
+                            <div className="absolute inset-0 flex items-center justify-center text-center text-slate-500 text-xs p-1">Kéo ảnh vào đây</div>
+                        )}
+                        <div className="absolute inset-0 pointer-events-none" style={{ border: `${pageUnits(style.borderWidth)} solid ${style.borderColor}` }} />
+                        {(isSelected || dropTarget === index) && (
+                            <div className={`absolute inset-0 pointer-events-none ring-4 ring-inset ${dropTarget === index ? 'ring-green-500' : 'ring-primary-500'}`} />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
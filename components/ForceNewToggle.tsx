@@ -0,0 +1,19 @@
+import React from 'react';
+import type { AiProvider } from '../services/aiProvider';
+
+interface ForceNewToggleProps {
+    provider: AiProvider | null;
+    checked: boolean;
+    onChange: (checked: boolean) => void;
+}
+
+/** Lets a call site skip the response cache. Only Gemini calls are cached, so other providers hide it. */
+export const ForceNewToggle: React.FC<ForceNewToggleProps> = ({ provider, checked, onChange }) => {
+    if (provider?.id !== 'gemini') return null;
+    return (
+        <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+            <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="form-checkbox h-4 w-4 text-primary-600 bg-gray-800 border-gray-600 rounded focus:ring-primary-500" />
+            Tạo mới, không dùng kết quả đã lưu
+        </label>
+    );
+};
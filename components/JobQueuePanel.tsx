@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { getJobs, getConcurrency, setConcurrency, cancelJob, cancelAllJobs, retryFailedJobs, clearFinishedJobs, JOB_QUEUE_UPDATED_EVENT, MAX_CONCURRENCY } from '../services/jobQueue';
+import type { JobInfo, JobStatus } from '../services/jobQueue';
+import { Spinner } from './Spinner';
+import { RetryIcon, TrashIcon } from './icons';
+
+const statusLabels: { [status in JobStatus]: string } = {
+    pending: 'Đang chờ',
+    running: 'Đang chạy',
+    retrying: 'Chờ thử lại',
+    failed: 'Lỗi',
+    done: 'Xong',
+    cancelled: 'Đã hủy',
+};
+
+const statusClasses: { [status in JobStatus]: string } = {
+    pending: 'text-slate-400',
+    running: 'text-primary-400',
+    retrying: 'text-amber-400',
+    failed: 'text-red-400',
+    done: 'text-green-400',
+    cancelled: 'text-slate-500',
+};
+
+/** Floating summary of the AI job queue; expands into the full list. */
+export const JobQueuePanel: React.FC = () => {
+    const [jobs, setJobs] = useState<JobInfo[]>(getJobs);
+    const [concurrency, setConcurrencyState] = useState(getConcurrency);
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        const handleUpdate = () => {
+            setJobs(getJobs());
+            setConcurrencyState(getConcurrency());
+        };
+        window.addEventListener(JOB_QUEUE_UPDATED_EVENT, handleUpdate);
+        return () => window.removeEventListener(JOB_QUEUE_UPDATED_EVENT, handleUpdate);
+    }, []);
+
+    if (jobs.length === 0) return null;
+
+    const count = (...statuses: JobStatus[]) => jobs.filter(job => statuses.includes(job.status)).length;
+    const pendingCount = count('pending', 'retrying');
+    const runningCount = count('running');
+    const failedCount = count('failed');
+    const finishedCount = count('done', 'cancelled');
+    const canRetryFailed = jobs.some(job => job.status === 'failed' && job.retryable);
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-slate-800 border border-slate-700 rounded-lg shadow-2xl text-sm">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full cursor-pointer p-3 flex justify-between items-center text-left gap-2"
+                aria-expanded={isOpen}
+                aria-controls="job-queue-panel"
+            >
+                <span className="flex items-center gap-2 font-semibold text-primary-400">
+                    {runningCount > 0 && <Spinner />}
+                    Hàng đợi AI
+                </span>
+                <span className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-400">{pendingCount} chờ</span>
+                    <span className="text-primary-400">{runningCount} chạy</span>
+                    <span className="text-red-400">{failedCount} lỗi</span>
+                    <span className="text-green-400">{finishedCount} xong</span>
+                    <svg className={`w-4 h-4 text-slate-400 transition-transform duration-300 ${isOpen ? '' : 'rotate-180'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                    </svg>
+                </span>
+            </button>
+            {isOpen && (
+                <div id="job-queue-panel" className="border-t border-slate-700 p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <label htmlFor="jobConcurrency" className="text-slate-400">Số yêu cầu chạy song song</label>
+                        <input
+                            id="jobConcurrency"
+                            type="number"
+                            min={1}
+                            max={MAX_CONCURRENCY}
+                            value={concurrency}
+                            onChange={e => setConcurrency(Number(e.target.value) || 1)}
+                            className="w-16 px-2 py-1 bg-slate-900 border border-slate-600 rounded-md outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                    </div>
+                    <ul className="max-h-64 overflow-y-auto space-y-1">
+                        {[...jobs].reverse().map(job => (
+                            <li key={job.id} className="flex items-start justify-between gap-2 bg-slate-900/60 rounded-md px-2 py-1.5">
+                                <div className="min-w-0">
+                                    <p className="truncate text-slate-200" title={job.label}>{job.label}</p>
+                                    <p className={`text-xs ${statusClasses[job.status]}`}>
+                                        {statusLabels[job.status]}
+                                        {job.attempts > 1 && ` · lần ${job.attempts}`}
+                                        {job.status === 'retrying' && job.nextRetryAt && ` · sau ${Math.max(1, Math.ceil((job.nextRetryAt - Date.now()) / 1000))} giây`}
+                                    </p>
+                                    {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+                                        <p className="text-xs text-slate-500 line-clamp-2" title={job.error}>{job.error}</p>
+                                    )}
+                                </div>
+                                {(job.status === 'pending' || job.status === 'running' || job.status === 'retrying') && (
+                                    <button onClick={() => cancelJob(job.id)} title="Hủy" className="text-slate-400 hover:text-red-400 shrink-0 p-1">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={cancelAllJobs} disabled={pendingCount + runningCount === 0} className="bg-red-700 hover:bg-red-800 text-white font-semibold py-1.5 px-3 rounded-lg text-xs disabled:bg-slate-600">
+                            Hủy tất cả
+                        </button>
+                        <button onClick={retryFailedJobs} disabled={!canRetryFailed} className="bg-yellow-600 hover:bg-yellow-700 text-white font-semibold py-1.5 px-3 rounded-lg text-xs flex items-center gap-1 disabled:bg-slate-600">
+                            <RetryIcon className="w-3 h-3" /> Thử lại tất cả lỗi
+                        </button>
+                        <button onClick={clearFinishedJobs} disabled={finishedCount + failedCount === 0} className="bg-slate-700 hover:bg-slate-600 text-white font-semibold py-1.5 px-3 rounded-lg text-xs disabled:bg-slate-800 disabled:text-slate-600">
+                            Xóa đã xong
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { enableVault, unlockVault, lockVault, disableVault } from '../services/keyVault';
+import { Spinner } from './Spinner';
+import { KeyIcon } from './icons';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface KeyVaultPanelProps {
+    isEnabled: boolean;
+    isLocked: boolean;
+    onLocked: () => void;
+}
+
+export const KeyVaultPanel: React.FC<KeyVaultPanelProps> = ({ isEnabled, isLocked, onLocked }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [isSettingUp, setIsSettingUp] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const resetForm = () => {
+        setPassphrase('');
+        setConfirmation('');
+        setIsSettingUp(false);
+        setError(null);
+    };
+
+    const handleUnlock = async () => {
+        if (!passphrase) return;
+        setIsWorking(true);
+        setError(null);
+        try {
+            await unlockVault(passphrase);
+            resetForm();
+        } catch (err) {
+            console.error("Failed to unlock API key vault:", err);
+            setError(err instanceof Error ? err.message : 'Không thể mở khóa kho API key.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleEnable = async () => {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setError(`Mật khẩu cần có ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`);
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setError('Mật khẩu xác nhận không khớp.');
+            return;
+        }
+        setIsWorking(true);
+        setError(null);
+        try {
+            await enableVault(passphrase);
+            resetForm();
+        } catch (err) {
+            console.error("Failed to enable API key vault:", err);
+            setError('Không thể mã hóa API key. Trình duyệt có thể không hỗ trợ WebCrypto.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleLock = () => {
+        lockVault();
+        onLocked();
+    };
+
+    const handleDisable = () => {
+        if (!window.confirm('Tắt mã hóa sẽ lưu lại các API key dưới dạng văn bản thường trên trình duyệt này. Tiếp tục?')) return;
+        try {
+            disableVault();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Không thể tắt mã hóa.');
+        }
+    };
+
+    const passphraseInput = (
+        <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && (isLocked ? handleUnlock() : handleEnable())}
+            placeholder="Mật khẩu"
+            autoFocus
+            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+        />
+    );
+
+    if (isLocked) {
+        return (
+            <div className="w-full max-w-xl p-6 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4 mb-6 text-left">
+                <h3 className="text-lg font-semibold text-primary-400 flex items-center gap-2"><KeyIcon className="w-5 h-5" /> Kho API key đang bị khóa</h3>
+                <p className="text-sm text-slate-400">Nhập mật khẩu để giải mã các API key đã lưu. Key chỉ được giữ trong bộ nhớ cho đến khi bạn đóng trang hoặc khóa lại.</p>
+                {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">{error}</div>}
+                {passphraseInput}
+                <div className="flex justify-end">
+                    <button onClick={handleUnlock} disabled={isWorking || !passphrase} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 disabled:bg-slate-600">
+                        {isWorking ? <><Spinner /> Đang mở khóa...</> : 'Mở khóa'}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (isEnabled) {
+        return (
+            <div className="w-full max-w-xl mb-6 flex flex-col sm:flex-row items-center justify-between gap-3 px-4 py-3 bg-slate-900/50 rounded-lg border border-slate-700 text-sm">
+                <span className="flex items-center gap-2 text-green-400"><KeyIcon className="w-4 h-4" /> API key được mã hóa bằng mật khẩu</span>
+                <div className="flex gap-2">
+                    <button onClick={handleDisable} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-1 px-3 rounded-lg">Tắt mã hóa</button>
+                    <button onClick={handleLock} className="bg-amber-600 hover:bg-amber-700 text-white font-bold py-1 px-3 rounded-lg">Khóa ngay</button>
+                </div>
+                {error && <div className="w-full bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg">{error}</div>}
+            </div>
+        );
+    }
+
+    if (!isSettingUp) {
+        return (
+            <button onClick={() => setIsSettingUp(true)} className="mb-6 text-sm text-slate-400 hover:text-primary-400 flex items-center gap-2">
+                <KeyIcon className="w-4 h-4" /> Bảo vệ API key bằng mật khẩu
+            </button>
+        );
+    }
+
+    return (
+        <div className="w-full max-w-xl p-6 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4 mb-6 text-left">
+            <h3 className="text-lg font-semibold text-primary-400">Mã hóa API key bằng mật khẩu</h3>
+            <p className="text-sm text-slate-400">Các key đã lưu sẽ được mã hóa trên trình duyệt này. Bạn cần nhập mật khẩu mỗi lần mở ứng dụng. Nếu quên mật khẩu, bạn sẽ phải thêm lại các key.</p>
+            {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">{error}</div>}
+            {passphraseInput}
+            <input
+                type="password"
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleEnable()}
+                placeholder="Nhập lại mật khẩu"
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+            />
+            <div className="flex justify-end gap-3">
+                <button onClick={resetForm} className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg">Hủy</button>
+                <button onClick={handleEnable} disabled={isWorking} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 disabled:bg-slate-600">
+                    {isWorking ? <><Spinner /> Đang mã hóa...</> : 'Bật mã hóa'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { exportMask, hasPaintedPixels } from '../services/imageMask';
+import { TrashIcon } from './icons';
+
+interface MaskEditorProps {
+    imageBase64: string;
+    onChange: (maskBase64: string | null) => void; // null while nothing is painted
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const toolLabels: { [tool in MaskTool]: string } = {
+    brush: 'Cọ',
+    eraser: 'Tẩy',
+    lasso: 'Khoanh vùng',
+};
+
+const PAINT_COLOR = '#ef4444';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+interface EditScopeToggleProps {
+    isMasking: boolean;
+    onChange: (isMasking: boolean) => void;
+}
+
+/** Switches an edit between redrawing the whole image and only a painted region. */
+export const EditScopeToggle: React.FC<EditScopeToggleProps> = ({ isMasking, onChange }) => (
+    <div className="flex gap-1 text-sm">
+        {[false, true].map(masking => (
+            <button key={String(masking)} onClick={() => onChange(masking)} className={`px-3 py-1 rounded-full ${isMasking === masking ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                {masking ? 'Chỉ vùng được tô' : 'Cả ảnh'}
+            </button>
+        ))}
+    </div>
+);
+
+/**
+ * Paints the region of an image an edit may change. The canvas has the image's own resolution and is scaled with
+ * it on screen, so the mask lines up pixel for pixel with what is sent.
+ */
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageBase64, onChange }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<Point | null>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushPercent, setBrushPercent] = useState(5); // of the image width, so it feels the same at any resolution
+    const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+            y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+        };
+    };
+
+    const paintSegment = (from: Point, to: Point) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx || !size) return;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = PAINT_COLOR;
+        ctx.lineWidth = (size.width * brushPercent) / 100;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    };
+
+    const fillLasso = (points: Point[]) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx || points.length < 3) return;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = PAINT_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.closePath();
+        ctx.fill();
+    };
+
+    const emitMask = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        onChange(hasPaintedPixels(canvas) ? exportMask(canvas) : null);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toCanvasPoint(e);
+        lastPointRef.current = point;
+        if (tool === 'lasso') {
+            setLassoPoints([point]);
+        } else {
+            paintSegment(point, point);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const last = lastPointRef.current;
+        if (!last) return;
+        const point = toCanvasPoint(e);
+        lastPointRef.current = point;
+        if (tool === 'lasso') {
+            setLassoPoints(prev => [...prev, point]);
+        } else {
+            paintSegment(last, point);
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!lastPointRef.current) return;
+        lastPointRef.current = null;
+        if (tool === 'lasso') {
+            fillLasso(lassoPoints);
+            setLassoPoints([]);
+        }
+        emitMask();
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        onChange(null);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                {(['brush', 'eraser', 'lasso'] as const).map(t => (
+                    <button key={t} onClick={() => setTool(t)} className={`px-3 py-1 rounded-full ${tool === t ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                        {toolLabels[t]}
+                    </button>
+                ))}
+                {tool !== 'lasso' && (
+                    <label className="flex items-center gap-2 text-slate-400">
+                        Cỡ
+                        <input type="range" min="1" max="20" value={brushPercent} onChange={e => setBrushPercent(parseFloat(e.target.value))} className="w-24 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                )}
+                <button onClick={handleClear} className="ml-auto text-xs text-slate-400 hover:text-red-400 flex items-center gap-1">
+                    <TrashIcon className="w-3 h-3" /> Xóa vùng tô
+                </button>
+            </div>
+            <div className="relative rounded-lg overflow-hidden bg-black select-none">
+                <img
+                    src={`data:image/png;base64,${imageBase64}`}
+                    alt="Ảnh cần sửa"
+                    className="w-full h-auto block"
+                    onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                    draggable={false}
+                />
+                {size && (
+                    <>
+                        <canvas
+                            ref={canvasRef}
+                            width={size.width}
+                            height={size.height}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair"
+                            style={{ touchAction: 'none' }}
+                        />
+                        {lassoPoints.length > 1 && (
+                            <svg viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                                <polyline points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(239, 68, 68, 0.25)" stroke={PAINT_COLOR} strokeWidth={size.width / 300} strokeDasharray={`${size.width / 100}`} />
+                            </svg>
+                        )}
+                    </>
+                )}
+            </div>
+            <p className="text-xs text-slate-500">Tô lên phần cần sửa. Chỉ vùng được tô có thể thay đổi, phần còn lại của ảnh được giữ nguyên.</p>
+        </div>
+    );
+};
@@ -7,14 +7,15 @@ interface ModalProps {
     title: string;
     children: React.ReactNode;
     showCloseButton?: boolean;
+    maxWidthClassName?: string;
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, showCloseButton = true }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, showCloseButton = true, maxWidthClassName = 'max-w-lg' }) => {
     if (!isOpen) return null;
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity" onClick={onClose}>
-            <div className="bg-slate-800 rounded-lg shadow-xl w-full max-w-lg mx-4 p-6 border border-slate-700" onClick={e => e.stopPropagation()}>
+            <div className={`bg-slate-800 rounded-lg shadow-xl w-full ${maxWidthClassName} mx-4 p-6 border border-slate-700`} onClick={e => e.stopPropagation()}>
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-xl font-bold text-primary-400">{title}</h2>
                     <button onClick={onClose} className="text-slate-400 hover:text-white">&times;</button>
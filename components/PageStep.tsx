@@ -0,0 +1,386 @@
+import React, { useState } from 'react';
+import type { ComicBook, ComicImage, ComicPage, PageLayoutId, PageStyle, PanelCrop, Scene, SpeechBubble } from '../types';
+import type { HistorySetter } from '../hooks/useHistory';
+import {
+    PAGE_LAYOUTS, autoLayoutPages, changePageLayout, createPage, defaultPanelCrop, getSelectedSceneImages, setPanelCrop, setPanelImage, swapPanels,
+} from '../services/comicPages';
+import type { PanelRef } from '../services/comicPages';
+import { withImageBubbles } from '../services/speechBubbles';
+import { PAPER_SIZES, PDF_BLEED_OPTIONS, PDF_DPI_OPTIONS, exportComicPdf, getEffectiveDpi } from '../services/pdfExport';
+import type { PaperSizeId } from '../services/pdfExport';
+import { exportComicCbz, exportComicEpub } from '../services/comicBookExport';
+import { ComicPageView, IMAGE_DRAG_TYPE, PANEL_DRAG_TYPE } from './ComicPageView';
+import { BubbleEditor } from './BubbleEditor';
+import { Modal } from './Modal';
+import { NextIcon, MagicIcon, PlusIcon, TrashIcon, RetryIcon, ChatBubbleIcon, DownloadIcon } from './icons';
+import { Spinner } from './Spinner';
+
+interface PageStepProps {
+    scenes: Scene[];
+    setScenes: HistorySetter<Scene[]>; // bubbles are stored on the scene images
+    comicBook: ComicBook;
+    setComicBook: HistorySetter<ComicBook>;
+    projectName: string;
+    onNext: () => void;
+}
+
+const styleSliders: { key: 'margin' | 'gutter' | 'borderWidth'; label: string; max: number }[] = [
+    { key: 'margin', label: 'Lề trang', max: 120 },
+    { key: 'gutter', label: 'Khoảng cách giữa khung', max: 80 },
+    { key: 'borderWidth', label: 'Độ dày viền', max: 20 },
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const PageStep: React.FC<PageStepProps> = ({ scenes, setScenes, comicBook, setComicBook, projectName, onNext }) => {
+    const { pages, style } = comicBook;
+    const [layoutId, setLayoutId] = useState<PageLayoutId>('grid-2x2');
+    const [selectedPanel, setSelectedPanel] = useState<PanelRef | null>(null);
+    const [bubbleImageId, setBubbleImageId] = useState<string | null>(null);
+    const [paperSizeId, setPaperSizeId] = useState<PaperSizeId>('a4');
+    const [pdfDpi, setPdfDpi] = useState(300);
+    const [pdfBleed, setPdfBleed] = useState(3);
+    const [pdfTrimMarks, setPdfTrimMarks] = useState(true);
+    const [pdfPageNumbers, setPdfPageNumbers] = useState(true);
+    const [pdfCover, setPdfCover] = useState(false);
+    const [coverImageId, setCoverImageId] = useState('');
+    const [bookTitle, setBookTitle] = useState(projectName);
+    const [pdfProgress, setPdfProgress] = useState<{ done: number; total: number } | null>(null);
+    const [pdfError, setPdfError] = useState<string | null>(null);
+    const [bookAuthor, setBookAuthor] = useState('');
+    const [bookSummary, setBookSummary] = useState('');
+    const [epubPanelNav, setEpubPanelNav] = useState(true);
+    const [readerExport, setReaderExport] = useState<{ format: 'cbz' | 'epub'; done: number; total: number } | null>(null);
+    const [readerExportError, setReaderExportError] = useState<string | null>(null);
+
+    const selectedImages = getSelectedSceneImages(scenes);
+    // Panels may still show an image that has since been deselected in step 3.
+    const imagesById = new Map<string, ComicImage>(scenes.flatMap(scene => scene.images).filter(img => img.status === 'done').map(img => [img.id, img]));
+    const usedImageIds = new Set(pages.flatMap(page => page.panels.map(panel => panel.imageId)));
+    const pdfRenderDpi = getEffectiveDpi(paperSizeId, pdfDpi, pdfBleed);
+
+    const setPages = (update: (pages: ComicPage[]) => ComicPage[], options?: { coalesceKey?: string }) =>
+        setComicBook(prev => {
+            const nextPages = update(prev.pages);
+            return nextPages === prev.pages ? prev : { ...prev, pages: nextPages };
+        }, options);
+
+    const handleAutoLayout = () => {
+        if (pages.length > 0 && !window.confirm('Dàn trang tự động sẽ thay thế các trang hiện có. Tiếp tục?')) return;
+        setSelectedPanel(null);
+        setPages(() => autoLayoutPages(selectedImages.map(img => img.id), layoutId));
+    };
+
+    const handleAddPage = () => setPages(prev => [...prev, createPage(layoutId)]);
+
+    const handleDeletePage = (pageId: string) => {
+        if (selectedPanel?.pageId === pageId) setSelectedPanel(null);
+        setPages(prev => prev.filter(page => page.id !== pageId));
+    };
+
+    const handleChangeLayout = (pageId: string, nextLayoutId: PageLayoutId) => {
+        setSelectedPanel(null);
+        setPages(prev => prev.map(page => page.id === pageId ? changePageLayout(page, nextLayoutId) : page));
+    };
+
+    const handlePanelDrop = (target: PanelRef, dataTransfer: DataTransfer) => {
+        const imageId = dataTransfer.getData(IMAGE_DRAG_TYPE);
+        if (imageId) {
+            setPages(prev => setPanelImage(prev, target, imageId));
+            return;
+        }
+        const source = dataTransfer.getData(PANEL_DRAG_TYPE);
+        if (source) {
+            setPages(prev => swapPanels(prev, JSON.parse(source) as PanelRef, target));
+        }
+    };
+
+    const handleCropChange = (ref: PanelRef, crop: PanelCrop) =>
+        setPages(prev => setPanelCrop(prev, ref, crop), { coalesceKey: `panelCrop:${ref.pageId}:${ref.index}` });
+
+    const handleStyleChange = <K extends keyof PageStyle>(key: K, value: PageStyle[K]) =>
+        setComicBook(prev => ({ ...prev, style: { ...prev.style, [key]: value } }), { coalesceKey: `pageStyle:${key}` });
+
+    const selectedPage = selectedPanel && pages.find(page => page.id === selectedPanel.pageId);
+    const selectedPanelData = selectedPage?.panels[selectedPanel!.index];
+
+    const bubbleImage = bubbleImageId ? imagesById.get(bubbleImageId) : undefined;
+    const bubbleScene = bubbleImageId ? scenes.find(scene => scene.images.some(img => img.id === bubbleImageId)) : undefined;
+
+    const handleSaveBubbles = (bubbles: SpeechBubble[]) => {
+        if (bubbleImageId) setScenes(prev => withImageBubbles(prev, bubbleImageId, bubbles));
+        setBubbleImageId(null);
+    };
+
+    const handleExportPdf = async () => {
+        setPdfError(null);
+        setPdfProgress({ done: 0, total: pages.length });
+        try {
+            const cover = pdfCover ? { image: imagesById.get(coverImageId || selectedImages[0]?.id || ''), title: bookTitle } : null;
+            const pdfBlob = await exportComicPdf(comicBook, imagesById, {
+                paperSizeId,
+                dpi: pdfDpi,
+                bleed: pdfBleed,
+                trimMarks: pdfTrimMarks,
+                pageNumbers: pdfPageNumbers,
+                cover,
+            }, (done, total) => setPdfProgress({ done, total }));
+            downloadBlob(pdfBlob, `${projectName.trim() || 'ai-comic'}.pdf`);
+        } catch (err) {
+            console.error('Failed to export PDF:', err);
+            setPdfError(err instanceof Error && err.message.startsWith('Lỗi:') ? err.message : 'Đã xảy ra lỗi khi tạo file PDF. Hãy thử giảm DPI rồi thử lại.');
+        } finally {
+            setPdfProgress(null);
+        }
+    };
+
+    const handleExportReaderFormat = async (format: 'cbz' | 'epub') => {
+        setReaderExportError(null);
+        setReaderExport({ format, done: 0, total: pages.length });
+        try {
+            const metadata = { title: bookTitle.trim(), author: bookAuthor.trim(), summary: bookSummary.trim() };
+            const onProgress = (done: number, total: number) => setReaderExport({ format, done, total });
+            const blob = format === 'cbz'
+                ? await exportComicCbz(comicBook, imagesById, metadata, onProgress)
+                : await exportComicEpub(comicBook, imagesById, metadata, epubPanelNav, onProgress);
+            downloadBlob(blob, `${projectName.trim() || 'ai-comic'}.${format}`);
+        } catch (err) {
+            console.error(`Failed to export ${format}:`, err);
+            setReaderExportError(err instanceof Error && err.message.startsWith('Lỗi:') ? err.message : 'Đã xảy ra lỗi khi tạo file truyện. Vui lòng thử lại.');
+        } finally {
+            setReaderExport(null);
+        }
+    };
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Bước 4: Dàn trang truyện</h2>
+            <p className="text-slate-400 mb-6 text-center">Sắp xếp các ảnh đã chọn thành trang truyện tranh. Kéo ảnh vào khung, kéo khung này sang khung khác để đổi chỗ, bấm vào một khung để căn chỉnh ảnh bên trong.</p>
+
+            <div className="mb-8 bg-slate-900/50 p-4 rounded-lg border border-slate-700 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                    <label htmlFor="page-layout" className="text-sm font-medium text-slate-300">Bố cục</label>
+                    <select id="page-layout" value={layoutId} onChange={e => setLayoutId(e.target.value as PageLayoutId)} className="bg-slate-800 border border-slate-600 rounded-md p-2 text-sm">
+                        {PAGE_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label} ({layout.frames.length} khung)</option>)}
+                    </select>
+                    <button onClick={handleAutoLayout} disabled={selectedImages.length === 0} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 text-sm disabled:bg-slate-600 disabled:cursor-not-allowed">
+                        <MagicIcon className="w-4 h-4" /> Tự động dàn trang
+                    </button>
+                    <button onClick={handleAddPage} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 text-sm">
+                        <PlusIcon className="w-4 h-4" /> Thêm trang
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 text-sm">
+                    {styleSliders.map(({ key, label, max }) => (
+                        <label key={key} className="text-slate-400">
+                            {label}: <span className="text-slate-200">{style[key]}</span>
+                            <input type="range" min="0" max={max} value={style[key]} onChange={e => handleStyleChange(key, parseFloat(e.target.value))} className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer mt-1" />
+                        </label>
+                    ))}
+                    <label className="text-slate-400 flex items-center gap-2">
+                        Màu viền
+                        <input type="color" value={style.borderColor} onChange={e => handleStyleChange('borderColor', e.target.value)} className="w-8 h-8 bg-transparent rounded cursor-pointer" />
+                    </label>
+                    <label className="text-slate-400 flex items-center gap-2">
+                        Màu nền trang
+                        <input type="color" value={style.backgroundColor} onChange={e => handleStyleChange('backgroundColor', e.target.value)} className="w-8 h-8 bg-transparent rounded cursor-pointer" />
+                    </label>
+                </div>
+            </div>
+
+            <div className="mb-8">
+                <h3 className="text-lg font-semibold text-slate-200 mb-2">Ảnh đã chọn</h3>
+                {selectedImages.length === 0 ? (
+                    <p className="text-sm text-slate-500">Chọn ảnh ở Bước 3 để đưa vào trang truyện.</p>
+                ) : (
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                        {selectedImages.map(image => (
+                            <div
+                                key={image.id}
+                                draggable
+                                onDragStart={e => {
+                                    e.dataTransfer.effectAllowed = 'copy';
+                                    e.dataTransfer.setData(IMAGE_DRAG_TYPE, image.id);
+                                }}
+                                title="Kéo vào một khung"
+                                className="relative shrink-0 w-20 h-20 rounded-md overflow-hidden border border-slate-600 cursor-grab"
+                            >
+                                <img src={`data:image/png;base64,${image.url}`} alt="" className="w-full h-full object-cover pointer-events-none" />
+                                {usedImageIds.has(image.id) && <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[10px] text-center text-slate-300">đã dùng</span>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {selectedPanel && selectedPanelData && (
+                <div className="sticky top-2 z-10 mb-6 bg-slate-800 border border-primary-700 rounded-lg p-3 flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-slate-300">Khung {selectedPanel.index + 1} · Trang {pages.indexOf(selectedPage!) + 1}</span>
+                    {selectedPanelData.imageId ? (
+                        <>
+                            <label className="flex items-center gap-2 text-slate-400">
+                                Thu phóng
+                                <input type="range" min="1" max="3" step="0.05" value={selectedPanelData.crop.zoom} onChange={e => handleCropChange(selectedPanel, { ...selectedPanelData.crop, zoom: parseFloat(e.target.value) })} className="w-32 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <span className="text-xs text-slate-500">Kéo ảnh trong khung để dịch chuyển.</span>
+                            <button onClick={() => setBubbleImageId(selectedPanelData.imageId)} className="text-amber-400 hover:text-amber-300 flex items-center gap-1"><ChatBubbleIcon className="w-3 h-3" /> Lời thoại</button>
+                            <button onClick={() => handleCropChange(selectedPanel, defaultPanelCrop)} className="text-primary-400 hover:text-primary-300 flex items-center gap-1"><RetryIcon className="w-3 h-3" /> Căn lại</button>
+                            <button onClick={() => setPages(prev => setPanelImage(prev, selectedPanel, null))} className="text-slate-400 hover:text-red-400 flex items-center gap-1"><TrashIcon className="w-3 h-3" /> Bỏ ảnh</button>
+                        </>
+                    ) : (
+                        <span className="text-xs text-slate-500">Khung trống. Kéo một ảnh đã chọn vào đây.</span>
+                    )}
+                    <button onClick={() => setSelectedPanel(null)} className="ml-auto text-slate-400 hover:text-white">Xong</button>
+                </div>
+            )}
+
+            {pages.length === 0 ? (
+                <p className="text-center text-slate-500 py-10 border-2 border-dashed border-slate-700 rounded-lg">Chưa có trang nào. Hãy dàn trang tự động hoặc thêm trang mới.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+                    {pages.map((page, pageIndex) => (
+                        <div key={page.id} className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <h4 className="font-bold text-primary-400">Trang {pageIndex + 1}</h4>
+                                <div className="flex items-center gap-2">
+                                    <select value={page.layoutId} onChange={e => handleChangeLayout(page.id, e.target.value as PageLayoutId)} aria-label="Bố cục trang" className="bg-slate-800 border border-slate-600 rounded-md p-1 text-xs">
+                                        {PAGE_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+                                    </select>
+                                    <button onClick={() => handleDeletePage(page.id)} title="Xóa trang" className="p-1 rounded text-slate-400 hover:bg-slate-700 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                            <ComicPageView
+                                page={page}
+                                style={style}
+                                imagesById={imagesById}
+                                selectedIndex={selectedPanel?.pageId === page.id ? selectedPanel.index : null}
+                                onSelectPanel={index => setSelectedPanel(index === null ? null : { pageId: page.id, index })}
+                                onDropOnPanel={(index, dataTransfer) => handlePanelDrop({ pageId: page.id, index }, dataTransfer)}
+                                onCropChange={(index, crop) => handleCropChange({ pageId: page.id, index }, crop)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {pages.length > 0 && (
+                <div className="mt-12 bg-slate-900/50 p-4 rounded-lg border border-slate-700 space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-200">Xuất PDF để in</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                        <label className="text-slate-400">
+                            Khổ giấy
+                            <select value={paperSizeId} onChange={e => setPaperSizeId(e.target.value as PaperSizeId)} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200">
+                                {PAPER_SIZES.map(size => <option key={size.id} value={size.id}>{size.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-slate-400">
+                            Độ phân giải
+                            <select value={pdfDpi} onChange={e => setPdfDpi(parseInt(e.target.value, 10))} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200">
+                                {PDF_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                            </select>
+                        </label>
+                        <label className="text-slate-400">
+                            Tràn lề (bleed)
+                            <select value={pdfBleed} onChange={e => setPdfBleed(parseFloat(e.target.value))} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200">
+                                {PDF_BLEED_OPTIONS.map(bleed => <option key={bleed} value={bleed}>{bleed === 0 ? 'Không' : `${bleed} mm`}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    {pdfRenderDpi < pdfDpi && (
+                        <p className="text-sm text-amber-400">Trang ở {pdfDpi} DPI quá lớn để trình duyệt vẽ được, nên PDF sẽ được xuất ở {pdfRenderDpi} DPI.</p>
+                    )}
+                    <div className="flex flex-wrap gap-6 text-sm text-slate-300">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={pdfTrimMarks} onChange={e => setPdfTrimMarks(e.target.checked)} className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-primary-600 focus:ring-primary-500" />
+                            Dấu cắt xén
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer" title="Số trang nằm ở lề dưới; trang có lề quá hẹp sẽ không được đánh số.">
+                            <input type="checkbox" checked={pdfPageNumbers} onChange={e => setPdfPageNumbers(e.target.checked)} className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-primary-600 focus:ring-primary-500" />
+                            Đánh số trang
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={pdfCover} onChange={e => setPdfCover(e.target.checked)} className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-primary-600 focus:ring-primary-500" />
+                            Trang bìa
+                        </label>
+                    </div>
+                    {pdfCover && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                            <label className="text-slate-400">
+                                Ảnh bìa
+                                <select value={coverImageId} onChange={e => setCoverImageId(e.target.value)} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200">
+                                    {selectedImages.map((image, index) => <option key={image.id} value={image.id}>Ảnh {index + 1}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-slate-400">
+                                Tiêu đề
+                                <input type="text" value={bookTitle} onChange={e => setBookTitle(e.target.value)} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200" />
+                            </label>
+                        </div>
+                    )}
+                    {pdfError && <p className="text-sm text-red-400">{pdfError}</p>}
+                    <button onClick={handleExportPdf} disabled={!!pdfProgress} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 text-sm disabled:bg-slate-600 disabled:cursor-not-allowed">
+                        {pdfProgress ? (
+                            <><Spinner /> Đang tạo PDF ({pdfProgress.done}/{pdfProgress.total})...</>
+                        ) : (
+                            <><DownloadIcon className="w-4 h-4" /> Tải PDF</>
+                        )}
+                    </button>
+                </div>
+            )}
+
+            {pages.length > 0 && (
+                <div className="mt-6 bg-slate-900/50 p-4 rounded-lg border border-slate-700 space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-200">Xuất cho ứng dụng đọc truyện (CBZ, EPUB)</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                        <label className="text-slate-400">
+                            Tiêu đề
+                            <input type="text" value={bookTitle} onChange={e => setBookTitle(e.target.value)} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200" />
+                        </label>
+                        <label className="text-slate-400">
+                            Tác giả
+                            <input type="text" value={bookAuthor} onChange={e => setBookAuthor(e.target.value)} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200" />
+                        </label>
+                        <label className="text-slate-400 sm:col-span-2">
+                            Tóm tắt
+                            <textarea value={bookSummary} onChange={e => setBookSummary(e.target.value)} rows={3} className="w-full mt-1 bg-slate-800 border border-slate-600 rounded-md p-2 text-slate-200" />
+                        </label>
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-300">
+                        <input type="checkbox" checked={epubPanelNav} onChange={e => setEpubPanelNav(e.target.checked)} className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-primary-600 focus:ring-primary-500" />
+                        Điều hướng từng khung trong EPUB
+                    </label>
+                    {readerExportError && <p className="text-sm text-red-400">{readerExportError}</p>}
+                    <div className="flex flex-wrap gap-3">
+                        {(['cbz', 'epub'] as const).map(format => (
+                            <button key={format} onClick={() => handleExportReaderFormat(format)} disabled={!!readerExport} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 text-sm disabled:bg-slate-600 disabled:cursor-not-allowed">
+                                {readerExport?.format === format ? (
+                                    <><Spinner /> Đang tạo ({readerExport.done}/{readerExport.total})...</>
+                                ) : (
+                                    <><DownloadIcon className="w-4 h-4" /> Tải {format.toUpperCase()}</>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-end mt-12">
+                <button onClick={onNext} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105">
+                    Bước 5: Tạo Video <NextIcon className="w-5 h-5"/>
+                </button>
+            </div>
+
+            <Modal isOpen={!!bubbleImage} onClose={() => setBubbleImageId(null)} title="Lời thoại và chú thích" showCloseButton={false} maxWidthClassName="max-w-5xl">
+                {bubbleImage && <BubbleEditor key={bubbleImage.id} image={bubbleImage} scene={bubbleScene} onSave={handleSaveBubbles} onCancel={() => setBubbleImageId(null)} />}
+            </Modal>
+        </div>
+    );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { listProjects, loadStoredProject, renameProject, duplicateProject, deleteProject, DEFAULT_PROJECT_NAME } from '../services/projectStore';
+import type { ProjectSnapshot, ProjectSummary } from '../services/projectStore';
+import { exportProjectArchive, importProjectArchive, ARCHIVE_EXTENSION } from '../services/projectArchive';
+import { Spinner } from './Spinner';
+import { PlusIcon, EditIcon, TrashIcon, DuplicateIcon, FolderIcon, UploadIcon, DownloadIcon } from './icons';
+
+interface ProjectLibraryProps {
+    onOpenProject: (id: string) => void;
+    onCreateProject: (name: string) => void;
+    onImportProject: (project: ProjectSnapshot) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpenProject, onCreateProject, onImportProject }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [newProjectName, setNewProjectName] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [exportingId, setExportingId] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshProjects = async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (err) {
+            console.error("Failed to list projects:", err);
+            setError('Không thể tải danh sách dự án. Trình duyệt có thể đang chặn bộ nhớ cục bộ.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refreshProjects();
+    }, []);
+
+    const handleCreate = () => {
+        onCreateProject(newProjectName.trim() || DEFAULT_PROJECT_NAME);
+        setNewProjectName('');
+    };
+
+    const startRename = (project: ProjectSummary) => {
+        setRenamingId(project.id);
+        setRenameValue(project.name);
+    };
+
+    const handleRename = async () => {
+        if (!renamingId || !renameValue.trim()) return;
+        try {
+            await renameProject(renamingId, renameValue.trim());
+            setRenamingId(null);
+            await refreshProjects();
+        } catch (err) {
+            console.error("Failed to rename project:", err);
+            setError('Không thể đổi tên dự án. Vui lòng thử lại.');
+        }
+    };
+
+    const handleDuplicate = async (id: string) => {
+        try {
+            await duplicateProject(id);
+            await refreshProjects();
+        } catch (err) {
+            console.error("Failed to duplicate project:", err);
+            setError('Không thể nhân bản dự án. Vui lòng thử lại.');
+        }
+    };
+
+    const handleDelete = async (project: ProjectSummary) => {
+        if (!window.confirm(`Xóa vĩnh viễn dự án "${project.name}"?`)) return;
+        try {
+            await deleteProject(project.id);
+            await refreshProjects();
+        } catch (err) {
+            console.error("Failed to delete project:", err);
+            setError('Không thể xóa dự án. Vui lòng thử lại.');
+        }
+    };
+
+    const handleExport = async (project: ProjectSummary) => {
+        setExportingId(project.id);
+        setError(null);
+        try {
+            const stored = await loadStoredProject(project.id);
+            if (!stored) throw new Error('Không tìm thấy dự án.');
+            const archiveBlob = await exportProjectArchive(stored);
+
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(archiveBlob);
+            link.download = `${project.name}${ARCHIVE_EXTENSION}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(link.href);
+        } catch (err) {
+            console.error("Failed to export project:", err);
+            setError(err instanceof Error ? err.message : 'Không thể xuất dự án. Vui lòng thử lại.');
+        } finally {
+            setExportingId(null);
+        }
+    };
+
+    const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (importInputRef.current) importInputRef.current.value = "";
+        if (!file) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            onImportProject(await importProjectArchive(file));
+        } catch (err) {
+            console.error("Failed to import project:", err);
+            setError(err instanceof Error ? err.message : 'Không thể nhập dự án. Vui lòng thử lại.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Thư viện dự án</h2>
+            <p className="text-slate-400 mb-8 text-center max-w-2xl mx-auto">Mỗi dự án lưu riêng nhân vật tham chiếu, các cảnh truyện và cấu hình video. Mọi thay đổi được tự động lưu trên trình duyệt này.</p>
+
+            {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-6 text-center">{error}</div>}
+
+            <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700 mb-8 flex flex-col sm:flex-row gap-4">
+                <input
+                    type="text"
+                    value={newProjectName}
+                    onChange={e => setNewProjectName(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleCreate()}
+                    placeholder="Tên dự án mới (vd: Tập 1 - Khởi đầu)"
+                    className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+                />
+                <button onClick={handleCreate} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-5 rounded-lg flex items-center justify-center gap-2">
+                    <PlusIcon className="w-5 h-5" /> Tạo dự án mới
+                </button>
+                <input type="file" accept={`${ARCHIVE_EXTENSION},.zip`} ref={importInputRef} onChange={handleImportFileChange} className="hidden" />
+                <button onClick={() => importInputRef.current?.click()} disabled={isImporting} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-5 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
+                    {isImporting ? <><Spinner /> Đang nhập...</> : <><UploadIcon className="w-5 h-5" /> Nhập tệp dự án</>}
+                </button>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center gap-3 text-slate-400 py-10"><Spinner /> Đang tải...</div>
+            ) : projects.length === 0 ? (
+                <div className="text-center py-10 px-4 bg-slate-900/50 rounded-lg border border-slate-700">
+                    <p className="text-slate-400">Bạn chưa có dự án nào được lưu.</p>
+                    <p className="text-slate-500 text-sm">Hãy tạo một dự án để bắt đầu.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {projects.map(project => (
+                        <div key={project.id} className="bg-slate-900/50 rounded-lg border border-slate-700 overflow-hidden flex flex-col">
+                            <button onClick={() => onOpenProject(project.id)} className="aspect-video bg-slate-800 flex items-center justify-center hover:opacity-90 transition-opacity" title="Mở dự án">
+                                {project.thumbnail ? (
+                                    <img src={`data:image/png;base64,${project.thumbnail}`} alt={project.name} className="w-full h-full object-cover" />
+                                ) : (
+                                    <FolderIcon className="w-12 h-12 text-slate-600" />
+                                )}
+                            </button>
+                            <div className="p-3 flex-grow flex flex-col gap-2">
+                                {renamingId === project.id ? (
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={renameValue}
+                                            onChange={e => setRenameValue(e.target.value)}
+                                            onKeyDown={e => e.key === 'Enter' && handleRename()}
+                                            autoFocus
+                                            className="flex-1 min-w-0 px-2 py-1 text-sm bg-slate-800 border border-slate-600 rounded focus:ring-2 focus:ring-primary-500 outline-none"
+                                        />
+                                        <button onClick={handleRename} className="bg-primary-600 hover:bg-primary-700 text-white text-xs font-bold px-2 rounded">Lưu</button>
+                                        <button onClick={() => setRenamingId(null)} className="bg-slate-600 hover:bg-slate-700 text-white text-xs font-bold px-2 rounded">Hủy</button>
+                                    </div>
+                                ) : (
+                                    <p className="font-semibold text-slate-100 truncate" title={project.name}>{project.name}</p>
+                                )}
+                                <p className="text-xs text-slate-400">
+                                    {project.sceneCount} cảnh · Sửa lần cuối {new Date(project.updatedAt).toLocaleString('vi-VN')}
+                                </p>
+                                <div className="flex gap-2 mt-auto pt-2">
+                                    <button onClick={() => onOpenProject(project.id)} className="flex-1 bg-primary-600 hover:bg-primary-700 text-white text-sm font-bold py-1 px-3 rounded-lg">Mở</button>
+                                    <button onClick={() => startRename(project)} title="Đổi tên" className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-lg"><EditIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleDuplicate(project.id)} title="Nhân bản" className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-lg"><DuplicateIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleExport(project)} disabled={exportingId === project.id} title="Xuất tệp dự án" className="bg-teal-600 hover:bg-teal-700 text-white p-2 rounded-lg disabled:bg-slate-600">
+                                        {exportingId === project.id ? <Spinner /> : <DownloadIcon className="w-4 h-4" />}
+                                    </button>
+                                    <button onClick={() => handleDelete(project)} title="Xóa" className="bg-red-600/50 hover:bg-red-600 text-white p-2 rounded-lg"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import type { PromptTemplateId, PromptTemplateOverrides } from '../types';
+import type { HistorySetter } from '../hooks/useHistory';
+import { PROMPT_TEMPLATES, placeholderDescriptions, getPromptTemplate } from '../services/promptTemplates';
+import { RetryIcon } from './icons';
+
+interface PromptTemplatePanelProps {
+    templateIds: PromptTemplateId[]; // the templates this step sends
+    overrides: PromptTemplateOverrides;
+    setOverrides: HistorySetter<PromptTemplateOverrides>;
+    previews: { [id in PromptTemplateId]?: string }; // each template rendered with the step's current input
+}
+
+/** Edits the project's prompt templates and shows exactly what the next request from this step will send. */
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ templateIds, overrides, setOverrides, previews }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    // A template edited back to the default stops being an override, so later changes to the default apply again.
+    const updateTemplate = (id: PromptTemplateId, template: string) => {
+        setOverrides(prev => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { [id]: _previous, ...rest } = prev;
+            return template === PROMPT_TEMPLATES[id].defaultTemplate ? rest : { ...rest, [id]: template };
+        }, { coalesceKey: `promptTemplate:${id}` });
+    };
+
+    const resetTemplate = (id: PromptTemplateId) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [id]: _previous, ...rest } = overrides;
+        setOverrides(rest);
+    };
+
+    return (
+        <div className="mb-8 bg-slate-900/50 border border-slate-700 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full cursor-pointer p-4 font-semibold text-primary-400 flex justify-between items-center text-left"
+                aria-expanded={isOpen}
+                aria-controls="prompt-template-panel"
+            >
+                <span>Mẫu prompt{templateIds.some(id => overrides[id] !== undefined) && <span className="ml-2 text-xs font-normal text-amber-400">(đã tùy chỉnh)</span>}</span>
+                <svg className={`w-5 h-5 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div id="prompt-template-panel" className="p-4 border-t border-slate-700 space-y-6">
+                    <p className="text-xs text-slate-500">Mẫu prompt được lưu theo dự án. Các chỗ như <code className="text-slate-300">{'{{description}}'}</code> được thay bằng dữ liệu thật khi gửi yêu cầu.</p>
+                    {templateIds.map(id => {
+                        const info = PROMPT_TEMPLATES[id];
+                        const isCustomized = overrides[id] !== undefined;
+                        return (
+                            <div key={id} className="space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <label htmlFor={`prompt-template-${id}`} className="text-sm font-semibold text-slate-200">
+                                        {info.label}{isCustomized && <span className="ml-2 text-xs font-normal text-amber-400">đã tùy chỉnh</span>}
+                                    </label>
+                                    <button onClick={() => resetTemplate(id)} disabled={!isCustomized} className="text-xs text-primary-400 hover:text-primary-300 flex items-center gap-1 disabled:text-slate-600 disabled:cursor-not-allowed">
+                                        <RetryIcon className="w-3 h-3" /> Khôi phục mặc định
+                                    </button>
+                                </div>
+                                <textarea
+                                    id={`prompt-template-${id}`}
+                                    value={getPromptTemplate(overrides, id)}
+                                    onChange={e => updateTemplate(id, e.target.value)}
+                                    rows={id === 'storySplit' ? 8 : 3}
+                                    className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 text-sm font-mono"
+                                />
+                                <div className="flex flex-wrap gap-2">
+                                    {info.placeholders.map(name => (
+                                        <span key={name} title={placeholderDescriptions[name]} className="px-2 py-0.5 text-xs rounded-full bg-slate-700 text-slate-300 font-mono cursor-help">{`{{${name}}}`}</span>
+                                    ))}
+                                </div>
+                                {previews[id] !== undefined && (
+                                    <div>
+                                        <p className="text-xs font-medium text-slate-400 mb-1">Xem trước prompt sẽ gửi</p>
+                                        <pre className="p-2 bg-slate-950/60 border border-slate-700 rounded-md text-xs text-slate-300 whitespace-pre-wrap max-h-48 overflow-y-auto">{previews[id] || '(trống)'}</pre>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { providerLabels } from '../services/aiProvider';
+import type { ProviderId, ProviderSettings } from '../services/aiProvider';
+import { mockScenarioLabels } from '../services/mockProvider';
+import type { MockScenario } from '../services/mockProvider';
+import { createProviderSecretId, getProviderSecret, saveProviderSecret, deleteProviderSecret, isVaultEnabled, isVaultUnlocked } from '../services/keyVault';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onChange: (settings: ProviderSettings) => void;
+}
+
+const placeholders: { [id in ProviderId]: { baseUrl: string; imageModel: string } } = {
+    'gemini': { baseUrl: '', imageModel: '' },
+    'openai-compatible': { baseUrl: 'https://api.openai.com/v1', imageModel: 'gpt-image-1' },
+    'stable-diffusion': { baseUrl: 'http://127.0.0.1:7860', imageModel: 'Để trống để dùng checkpoint hiện tại' },
+    'mock': { baseUrl: '', imageModel: '' },
+};
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<ProviderSettings>) => onChange({ ...settings, ...changes });
+    const inputClassName = "w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none";
+    const readApiKey = () => (settings.apiKeyId ? getProviderSecret(settings.apiKeyId) ?? '' : '');
+    const [apiKey, setApiKey] = useState(readApiKey);
+    const [isKeyLocked, setIsKeyLocked] = useState(() => isVaultEnabled() && !isVaultUnlocked());
+    const [keyError, setKeyError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const refresh = () => {
+            setApiKey(readApiKey());
+            setIsKeyLocked(isVaultEnabled() && !isVaultUnlocked());
+        };
+        refresh();
+        window.addEventListener('apiKeysUpdated', refresh);
+        return () => window.removeEventListener('apiKeysUpdated', refresh);
+    }, [settings.apiKeyId]);
+
+    const handleApiKeyChange = async (value: string) => {
+        setApiKey(value);
+        setKeyError(null);
+        try {
+            if (!value) {
+                if (settings.apiKeyId) deleteProviderSecret(settings.apiKeyId);
+                update({ apiKeyId: undefined });
+                return;
+            }
+            const apiKeyId = settings.apiKeyId ?? createProviderSecretId();
+            if (apiKeyId !== settings.apiKeyId) update({ apiKeyId });
+            await saveProviderSecret(value, apiKeyId);
+        } catch (error) {
+            setKeyError(error instanceof Error ? error.message : 'Không thể lưu API key.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl mx-auto mb-8 text-left">
+            <label htmlFor="providerId" className="block text-sm font-medium text-slate-400 mb-1">Nhà cung cấp AI cho dự án này</label>
+            <select
+                id="providerId"
+                value={settings.providerId}
+                onChange={e => update({ providerId: e.target.value as ProviderId })}
+                className={inputClassName}
+            >
+                {(Object.keys(providerLabels) as ProviderId[]).map(id => (
+                    <option key={id} value={id}>{providerLabels[id]}</option>
+                ))}
+            </select>
+
+            {settings.providerId === 'mock' && (
+                <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+                    <label htmlFor="mockScenario" className="block text-sm font-medium text-slate-400 mb-1">Phản hồi mô phỏng</label>
+                    <select
+                        id="mockScenario"
+                        value={settings.mockScenario ?? 'success'}
+                        onChange={e => update({ mockScenario: e.target.value as MockScenario })}
+                        className={inputClassName}
+                    >
+                        {(Object.keys(mockScenarioLabels) as MockScenario[]).map(scenario => (
+                            <option key={scenario} value={scenario}>{mockScenarioLabels[scenario]}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-slate-500 mt-2">Ảnh được vẽ ngay trên trình duyệt kèm nội dung mô tả, không gửi yêu cầu nào tới máy chủ. Dùng để thử giao diện và các trường hợp lỗi.</p>
+                </div>
+            )}
+
+            {(settings.providerId === 'openai-compatible' || settings.providerId === 'stable-diffusion') && (
+                <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4">
+                    <div>
+                        <label htmlFor="providerBaseUrl" className="block text-sm font-medium text-slate-400 mb-1">Địa chỉ máy chủ</label>
+                        <input id="providerBaseUrl" type="url" value={settings.baseUrl} onChange={e => update({ baseUrl: e.target.value.trim() })} placeholder={placeholders[settings.providerId].baseUrl} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="providerApiKey" className="block text-sm font-medium text-slate-400 mb-1">API Key (nếu máy chủ yêu cầu)</label>
+                        <input id="providerApiKey" type="password" value={apiKey} disabled={isKeyLocked} onChange={e => handleApiKeyChange(e.target.value.trim())} className={`${inputClassName} disabled:opacity-50`} />
+                        {keyError && <p className="text-xs text-red-400 mt-1">{keyError}</p>}
+                        <p className="text-xs text-slate-500 mt-1">
+                            {isKeyLocked
+                                ? 'Kho API key đang bị khóa. Mở khóa ở Bước 1 để dùng hoặc sửa key này.'
+                                : 'Key này được lưu cùng các API key ở Bước 1 (được mã hóa nếu bạn bật kho key), không nằm trong dự án và không được đưa vào tệp dự án khi xuất.'}
+                        </p>
+                    </div>
+                    <div>
+                        <label htmlFor="providerImageModel" className="block text-sm font-medium text-slate-400 mb-1">Mô hình tạo ảnh</label>
+                        <input id="providerImageModel" type="text" value={settings.imageModel} onChange={e => update({ imageModel: e.target.value.trim() })} placeholder={placeholders[settings.providerId].imageModel} className={inputClassName} />
+                    </div>
+                    {settings.providerId === 'openai-compatible' && (
+                        <div>
+                            <label htmlFor="providerTextModel" className="block text-sm font-medium text-slate-400 mb-1">Mô hình văn bản (dùng để phân chia cảnh)</label>
+                            <input id="providerTextModel" type="text" value={settings.textModel} onChange={e => update({ textModel: e.target.value.trim() })} placeholder="gpt-4o-mini" className={inputClassName} />
+                        </div>
+                    )}
+                    {settings.providerId === 'stable-diffusion' && (
+                        <p className="text-xs text-slate-500">Cần chạy WebUI với tùy chọn <code>--api</code> và cho phép truy cập từ trình duyệt (<code>--cors-allow-origins</code>). Stable Diffusion không hỗ trợ phân chia truyện thành cảnh.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { getCacheStats, getCacheMaxMb, setCacheMaxMb, clearResponseCache, RESPONSE_CACHE_UPDATED_EVENT } from '../services/responseCache';
+import type { CacheStats } from '../services/responseCache';
+import { TrashIcon } from './icons';
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const ResponseCachePanel: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [stats, setStats] = useState<CacheStats>({ entries: 0, bytes: 0 });
+    const [maxMb, setMaxMb] = useState(String(getCacheMaxMb()));
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const loadStats = async () => {
+            try {
+                setStats(await getCacheStats());
+                setError(null);
+            } catch (err) {
+                console.error("Failed to load response cache stats:", err);
+                setError('Không thể đọc bộ nhớ đệm.');
+            }
+        };
+        loadStats();
+        window.addEventListener(RESPONSE_CACHE_UPDATED_EVENT, loadStats);
+        return () => window.removeEventListener(RESPONSE_CACHE_UPDATED_EVENT, loadStats);
+    }, [isOpen]);
+
+    const handleSaveLimit = async () => {
+        const value = parseFloat(maxMb);
+        if (isNaN(value) || value < 0) {
+            setError('Dung lượng tối đa phải là một số không âm.');
+            return;
+        }
+        try {
+            await setCacheMaxMb(value);
+            setError(null);
+        } catch (err) {
+            console.error("Failed to apply response cache limit:", err);
+            setError('Không thể áp dụng giới hạn bộ nhớ đệm.');
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Xóa toàn bộ kết quả AI đã lưu?')) return;
+        try {
+            await clearResponseCache();
+        } catch (err) {
+            console.error("Failed to clear response cache:", err);
+            setError('Không thể xóa bộ nhớ đệm.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl mt-4 bg-slate-900/50 border border-slate-700 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full cursor-pointer p-4 font-semibold text-primary-400 flex justify-between items-center text-left"
+                aria-expanded={isOpen}
+                aria-controls="response-cache-panel"
+            >
+                <span>Bộ nhớ đệm kết quả AI</span>
+                <svg className={`w-5 h-5 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div id="response-cache-panel" className="p-4 border-t border-slate-700 text-left space-y-4">
+                    {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">{error}</div>}
+                    <p className="text-sm text-slate-400">
+                        Đang lưu {stats.entries} kết quả · <span className="font-semibold text-slate-200">{formatMb(stats.bytes)}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                        Yêu cầu Gemini lặp lại với cùng mô tả, ảnh tham chiếu và tỉ lệ khung hình sẽ dùng lại kết quả đã lưu thay vì tốn hạn ngạch.
+                        Khi vượt quá dung lượng, các kết quả lâu không dùng nhất sẽ bị xóa trước.
+                    </p>
+                    <div className="flex items-end gap-2">
+                        <div className="flex-1">
+                            <label htmlFor="cacheMaxMb" className="block text-sm font-medium text-slate-400 mb-1">Dung lượng tối đa (MB, 0 để tắt)</label>
+                            <input
+                                id="cacheMaxMb"
+                                type="number"
+                                min={0}
+                                value={maxMb}
+                                onChange={e => setMaxMb(e.target.value)}
+                                className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+                            />
+                        </div>
+                        <button onClick={handleSaveLimit} className="bg-primary-600 hover:bg-primary-700 text-white text-sm font-bold py-2 px-3 rounded-lg">
+                            Áp dụng
+                        </button>
+                        <button onClick={handleClear} disabled={stats.entries === 0} className="bg-red-600/50 hover:bg-red-600 text-white text-sm font-bold py-2 px-3 rounded-lg flex items-center gap-2 disabled:bg-slate-600">
+                            <TrashIcon className="w-4 h-4" /> Xóa
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import type { ComicImage, ImageRevision } from '../types';
+import { getImageRevisions } from '../services/imageRevisions';
+
+interface RevisionCompareProps {
+    image: ComicImage;
+    onRestore: (revision: ImageRevision) => void;
+    onFork: (revision: ImageRevision) => void;
+}
+
+const revisionLabel = (revisions: ImageRevision[], revision: ImageRevision) => {
+    const index = revisions.indexOf(revision);
+    return index === 0 ? 'Bản gốc' : `Lần sửa ${index}`;
+};
+
+export const RevisionCompare: React.FC<RevisionCompareProps> = ({ image, onRestore, onFork }) => {
+    const revisions = getImageRevisions(image);
+    const [leftId, setLeftId] = useState(revisions[Math.max(0, revisions.length - 2)].id);
+    const [rightId, setRightId] = useState(revisions[revisions.length - 1].id);
+    const [mode, setMode] = useState<'slider' | 'side'>('slider');
+    const [sliderPosition, setSliderPosition] = useState(50);
+
+    const left = revisions.find(r => r.id === leftId) ?? revisions[0];
+    const right = revisions.find(r => r.id === rightId) ?? revisions[revisions.length - 1];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center gap-4 text-sm">
+                <p className="text-slate-400"><span className="font-semibold text-amber-400">A:</span> {revisionLabel(revisions, left)} · <span className="font-semibold text-sky-400">B:</span> {revisionLabel(revisions, right)}</p>
+                <div className="flex gap-1 shrink-0">
+                    {(['slider', 'side'] as const).map(m => (
+                        <button key={m} onClick={() => setMode(m)} className={`px-3 py-1 rounded-full ${mode === m ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                            {m === 'slider' ? 'Thanh trượt' : 'Cạnh nhau'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'slider' ? (
+                <div>
+                    <div className="relative rounded-lg overflow-hidden bg-black">
+                        <img src={`data:image/png;base64,${right.url}`} alt="B" className="w-full h-auto block" />
+                        <img
+                            src={`data:image/png;base64,${left.url}`}
+                            alt="A"
+                            className="absolute inset-0 w-full h-full object-cover"
+                            style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+                        />
+                        <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+                    </div>
+                    <input type="range" min="0" max="100" value={sliderPosition} onChange={e => setSliderPosition(parseFloat(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer mt-2" />
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-2">
+                    <img src={`data:image/png;base64,${left.url}`} alt="A" className="w-full h-auto rounded-lg" />
+                    <img src={`data:image/png;base64,${right.url}`} alt="B" className="w-full h-auto rounded-lg" />
+                </div>
+            )}
+
+            <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+                {revisions.map(revision => (
+                    <div key={revision.id} className={`flex items-center gap-3 p-2 rounded-md border ${revision.url === image.url ? 'border-primary-600 bg-primary-900/30' : 'border-slate-700 bg-slate-900/50'}`}>
+                        <img src={`data:image/png;base64,${revision.url}`} alt={revisionLabel(revisions, revision)} className="w-12 h-12 rounded object-cover flex-shrink-0" />
+                        <div className="flex-grow min-w-0 text-left">
+                            <p className="text-sm font-semibold text-slate-200">
+                                {revisionLabel(revisions, revision)}
+                                {revision.url === image.url && <span className="ml-2 text-xs text-primary-400">(đang dùng)</span>}
+                            </p>
+                            <p className="text-xs text-slate-400 truncate" title={revision.prompt ?? undefined}>{revision.prompt ?? '—'}</p>
+                        </div>
+                        <div className="flex gap-1 flex-shrink-0 text-xs">
+                            <button onClick={() => setLeftId(revision.id)} className={`w-7 h-7 rounded font-bold ${left.id === revision.id ? 'bg-amber-500 text-slate-900' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>A</button>
+                            <button onClick={() => setRightId(revision.id)} className={`w-7 h-7 rounded font-bold ${right.id === revision.id ? 'bg-sky-500 text-slate-900' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>B</button>
+                            <button onClick={() => onRestore(revision)} disabled={revision.url === image.url} className="bg-green-600 hover:bg-green-700 text-white px-2 rounded disabled:bg-slate-600">Khôi phục</button>
+                            <button onClick={() => onFork(revision)} className="bg-primary-600 hover:bg-primary-700 text-white px-2 rounded">Tách ảnh</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
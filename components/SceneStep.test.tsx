@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { SceneStep } from './SceneStep';
+import { createMockProvider } from '../services/mockProvider';
+import type { MockScenario } from '../services/mockProvider';
+import { defaultArtStyleSettings } from '../services/artStyles';
+import { createScene } from '../services/sceneList';
+import { cancelAllJobs, clearFinishedJobs } from '../services/jobQueue';
+import type { ArtStyleSettings, PromptTemplateOverrides, Scene } from '../types';
+
+// The step keeps its scenes in App; plain state stands in for the history setters.
+const Harness = ({ scenario, initialScenes = [] }: { scenario: MockScenario; initialScenes?: Scene[] }) => {
+    const [artStyle, setArtStyle] = useState<ArtStyleSettings>(defaultArtStyleSettings);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOverrides>({});
+    const [scenes, setScenes] = useState<Scene[]>(initialScenes);
+    return (
+        <SceneStep
+            provider={createMockProvider(scenario)}
+            artStyle={artStyle}
+            setArtStyle={setArtStyle}
+            promptTemplates={promptTemplates}
+            setPromptTemplates={setPromptTemplates}
+            characters={[]}
+            scenes={scenes}
+            setScenes={setScenes}
+            onNext={() => {}}
+        />
+    );
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    // Failed jobs are logged; the assertions look at what the step shows instead.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    cleanup();
+    cancelAllJobs();
+    clearFinishedJobs();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('SceneStep with the mock provider', () => {
+    it.each<[MockScenario, string]>([
+        ['quota', 'vượt quá hạn ngạch API (lỗi 429)'],
+        ['forbidden', 'API Key không hợp lệ'],
+        ['safety', 'AI không trả về kết quả nào'],
+        ['empty', 'Phản hồi từ AI không chứa dữ liệu hình ảnh'],
+        ['text-instead-of-image', 'AI đã trả về văn bản thay vì ảnh'],
+    ])('%s: a scene image shows the error and is marked as failed', async (scenario, expected) => {
+        // Cast with nobody, so the scene is drawn from its description alone.
+        const scene = createScene({ description: 'Mai mở cửa nhìn ra vườn.', castIds: [] });
+        render(<Harness scenario={scenario} initialScenes={[scene]} />);
+        fireEvent.click(screen.getByRole('button', { name: /Bắt đầu tạo tất cả ảnh/ }));
+
+        // Quota errors are retried with backoff before the job gives up.
+        await act(() => vi.runAllTimersAsync());
+
+        expect(screen.getByText(expected, { exact: false })).toBeTruthy();
+        expect(screen.getByText('Tạo lỗi')).toBeTruthy();
+    });
+
+    it.each<[MockScenario, string]>([
+        ['quota', 'vượt quá hạn ngạch API (lỗi 429)'],
+        ['forbidden', 'API Key không hợp lệ'],
+        ['safety', 'AI đã trả về một phản hồi trống'],
+        ['empty', 'AI đã trả về một phản hồi trống'],
+        ['text-instead-of-image', 'không trả về định dạng JSON hợp lệ'],
+    ])('%s: splitting the story shows the error and adds no scenes', async (scenario, expected) => {
+        render(<Harness scenario={scenario} />);
+        fireEvent.change(screen.getByPlaceholderText(/nội dung câu chuyện/), { target: { value: 'Mai mở cửa. Không ai ở đó.' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Phân chia cảnh' }));
+
+        await act(() => vi.runAllTimersAsync());
+
+        expect(screen.getByText(expected, { exact: false })).toBeTruthy();
+        expect(screen.queryByRole('button', { name: /Bắt đầu tạo tất cả ảnh/ })).toBeNull();
+    });
+});
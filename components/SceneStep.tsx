@@ -1,150 +1,288 @@
 
 
 import React, { useState, useRef } from 'react';
-import type { Scene, ComicImage } from '../types';
-import { splitStoryIntoScenes, generateSceneImage, editImageWithPrompt } from '../services/geminiService';
-import { fileToBase64, markApiKeyAsInvalid, parseGeminiError, cropImageToBase64 } from '../services/utils';
+import type { ArtStyleSettings, Character, PromptTemplateOverrides, Scene, ComicImage, ImageRevision, SpeechBubble, StoryboardScene } from '../types';
+import type { AiProvider } from '../services/aiProvider';
+import { fileToBase64, parseGeminiError, cropImageToBase64, isAbortError } from '../services/utils';
+import { enqueueJob, runJob, cancelJobs } from '../services/jobQueue';
+import { shotTypeLabels } from '../services/storyboard';
+import { buildScenePrompt, buildStorySplitPrompt } from '../services/promptTemplates';
+import { getSceneCast, castFromStoryboardNames } from '../services/characterRoster';
+import { createScene, moveScene, insertScene, duplicateScene, splitScene, mergeScenes, mergeDropsMedia } from '../services/sceneList';
+import { getSelectedStyle, withArtStyleText } from '../services/artStyles';
+import { editMaskedRegion } from '../services/imageMask';
+import { renderImageWithBubbles, withImageBubbles } from '../services/speechBubbles';
+import { getJSZip } from '../services/projectArchive';
+import { withEditedRevision, withRestoredRevision, forkRevision } from '../services/imageRevisions';
+import type { HistorySetter } from '../hooks/useHistory';
 import { Spinner } from './Spinner';
 import { Modal } from './Modal';
-import { NextIcon, MagicIcon, UploadIcon, EditIcon, TrashIcon, RetryIcon, ZoomInIcon, DownloadIcon } from './icons';
+import { RevisionCompare } from './RevisionCompare';
+import { ForceNewToggle } from './ForceNewToggle';
+import { StoryboardEditor } from './StoryboardEditor';
+import { MaskEditor, EditScopeToggle } from './MaskEditor';
+import { BubbleEditor } from './BubbleEditor';
+import { ArtStylePanel } from './ArtStylePanel';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import type { StoryboardFields } from './StoryboardEditor';
+import { NextIcon, MagicIcon, UploadIcon, EditIcon, TrashIcon, RetryIcon, ZoomInIcon, DownloadIcon, HistoryIcon, CheckIcon, MoveIcon, PlusIcon, DuplicateIcon, ScissorsIcon, MergeIcon, ChatBubbleIcon } from './icons';
+
+const SCENE_IMAGE_JOB_GROUP = 'sceneImages';
+const MAX_VARIATIONS = 8;
+
+// What a batch run does with scenes that already have finished images.
+type ExistingImagesMode = 'skip' | 'top-up';
+
+const clampVariations = (value: number) => Math.min(MAX_VARIATIONS, Math.max(1, Math.round(value) || 1));
+
+const createPlaceholder = (isSelected: boolean): ComicImage => ({
+    id: `img-${Date.now()}-${Math.random()}`,
+    url: '',
+    isSelected,
+    status: 'generating',
+    duration: 3,
+});
 
 interface SceneStepProps {
-    apiKey: string | null;
-    referenceImages: string[];
+    provider: AiProvider | null;
+    notice?: React.ReactNode; // e.g. a warning about the provider, shown under the heading
+    artStyle: ArtStyleSettings;
+    setArtStyle: HistorySetter<ArtStyleSettings>;
+    promptTemplates: PromptTemplateOverrides;
+    setPromptTemplates: HistorySetter<PromptTemplateOverrides>;
+    characters: Character[];
     scenes: Scene[];
-    setScenes: React.Dispatch<React.SetStateAction<Scene[]>>;
+    setScenes: HistorySetter<Scene[]>;
     onNext: () => void;
 }
 
-export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, scenes, setScenes, onNext }) => {
+export const SceneStep: React.FC<SceneStepProps> = ({ provider, notice, artStyle, setArtStyle, promptTemplates, setPromptTemplates, characters, scenes, setScenes, onNext }) => {
     const [storyText, setStoryText] = useState('');
     const [numScenes, setNumScenes] = useState('');
     const [aspectRatio, setAspectRatio] = useState('16:9');
+    const [variationCount, setVariationCount] = useState(1);
+    const [existingImagesMode, setExistingImagesMode] = useState<ExistingImagesMode>('skip');
     const [isSplitting, setIsSplitting] = useState(false);
-    const [isBatchGenerating, setIsBatchGenerating] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [editingImage, setEditingImage] = useState<{sceneId: string, image: ComicImage} | null>(null);
     const [viewingImage, setViewingImage] = useState<string | null>(null);
+    const [comparingImage, setComparingImage] = useState<{sceneId: string, imageId: string} | null>(null);
+    const [bubbleTarget, setBubbleTarget] = useState<{sceneId: string, imageId: string} | null>(null);
     const [editPrompt, setEditPrompt] = useState('');
+    const [isMaskingEdit, setIsMaskingEdit] = useState(false);
+    const [editMask, setEditMask] = useState<string | null>(null);
     const [isEditing, setIsEditing] = useState(false);
+    const [openStoryboards, setOpenStoryboards] = useState<string[]>([]);
+    const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null); // the gap the dragged scene would land in
+    const [forceNewSplit, setForceNewSplit] = useState(false);
+    const [forceNewBatch, setForceNewBatch] = useState(false);
+    const [forceNewEdit, setForceNewEdit] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [uploadTarget, setUploadTarget] = useState<string | null>(null);
 
     const handleSplitScenes = async () => {
-        if (!apiKey || !storyText) {
+        if (!provider || !storyText) {
             setError("Vui lòng nhập nội dung truyện và đảm bảo API key đã được cấu hình.");
             return;
         }
         setIsSplitting(true);
         setError(null);
+        const prompt = buildStorySplitPrompt(promptTemplates, storyText, numScenes ? parseInt(numScenes) : undefined);
         try {
-            const sceneDescriptions = await splitStoryIntoScenes(apiKey, storyText, numScenes ? parseInt(numScenes) : undefined);
-            const newScenes: Scene[] = sceneDescriptions.map((desc, i) => ({
-                id: `scene-${Date.now()}-${i}`,
-                description: desc,
-                images: [],
-                backgroundMusicFile: null,
-                backgroundMusicUrl: null,
-                backgroundMusicVolume: 0.2,
-                backgroundMusicTrimStart: 0,
-                backgroundMusicTrimEnd: null,
-                backgroundMusicDuration: 0,
+            const storyboard = await runJob<StoryboardScene[]>({
+                label: 'Phân chia truyện thành cảnh',
+                run: signal => provider.splitStoryIntoScenes(prompt, { signal, forceNew: forceNewSplit }),
+            });
+            const newScenes: Scene[] = storyboard.map(storyboardScene => createScene({
+                ...storyboardScene,
+                castIds: castFromStoryboardNames(storyboardScene.characters, characters),
             }));
             setScenes(newScenes);
         } catch (err: unknown) {
-            const friendlyError = parseGeminiError(err);
-            if (apiKey && friendlyError.toLowerCase().includes('api key')) {
-                markApiKeyAsInvalid(apiKey);
-            }
-            setError(friendlyError);
+            if (!isAbortError(err)) setError(parseGeminiError(err));
         } finally {
             setIsSplitting(false);
         }
     };
     
-    const updateImageStatus = (sceneId: string, imageId: string, newStatus: ComicImage['status'], newUrl?: string) => {
+    // Looks the image up by id alone, since its scene may have been merged into another while the request ran.
+    const updateImageStatus = (imageId: string, newStatus: ComicImage['status'], newUrl?: string) => {
         setScenes(prevScenes => prevScenes.map(scene => {
-            if (scene.id === sceneId) {
+            if (scene.images.some(img => img.id === imageId)) {
                 return {
                     ...scene,
                     images: scene.images.map(img => {
                         if (img.id === imageId) {
-                            const isSelected = newStatus === 'done' ? true : img.isSelected;
-                            return { ...img, status: newStatus, url: newUrl ?? img.url, isSelected };
+                            return { ...img, status: newStatus, url: newUrl ?? img.url };
                         }
                         return img;
                     })
                 };
             }
             return scene;
-        }));
+        }), { record: false });
     };
 
-    const runImageGeneration = async (scene: Scene, image: ComicImage, isRetry: boolean) => {
-        if (!apiKey || !referenceImages.length) {
-            setError("Cần có API key và ít nhất một ảnh tham chiếu để tạo ảnh.");
-            updateImageStatus(scene.id, image.id, 'error');
+    // Variations share a prompt and therefore a cache key, so all but one of them must skip the cache.
+    const queueImageGeneration = (scene: Scene, image: ComicImage, forceNew: boolean) => {
+        const cast = getSceneCast(scene, characters);
+        const { prompt, references } = buildScenePrompt(promptTemplates, scene, cast, getSelectedStyle(artStyle));
+        const castReferenceCount = cast.reduce((count, character) => count + character.referenceImages.length, 0);
+        // A scene deliberately cast with nobody is drawn from the prompt alone.
+        const isCastEmpty = scene.castIds?.length === 0;
+        if (!provider || (!castReferenceCount && !isCastEmpty)) {
+            setError("Cần có API key và ít nhất một ảnh tham chiếu của các nhân vật trong cảnh để tạo ảnh.");
+            updateImageStatus(image.id, 'error');
             return;
         }
-        if (!isRetry) {
-             updateImageStatus(scene.id, image.id, 'generating');
-        }
-        try {
-            const prompt = `Tạo một khung truyện tranh với nhân vật từ ảnh tham chiếu. Bối cảnh: ${scene.description}. Giữ nguyên phong cách và ngoại hình nhân vật.`;
-            const rawImageBase64 = await generateSceneImage(apiKey, referenceImages, prompt);
-            const finalImageBase64 = await cropImageToBase64(rawImageBase64, aspectRatio);
-            updateImageStatus(scene.id, image.id, 'done', finalImageBase64);
-        } catch (err: unknown) {
-            const friendlyError = parseGeminiError(err);
-             if (apiKey && friendlyError.toLowerCase().includes('api key')) {
-                markApiKeyAsInvalid(apiKey);
-            }
-            setError(friendlyError);
-            updateImageStatus(scene.id, image.id, 'error');
-        }
+        const sceneNumber = scenes.findIndex(s => s.id === scene.id) + 1;
+        enqueueJob<string>({
+            label: `Ảnh cho cảnh ${sceneNumber}`,
+            group: SCENE_IMAGE_JOB_GROUP,
+            run: signal => provider.generateSceneImage(references, prompt, { signal, forceNew }),
+            onQueued: () => updateImageStatus(image.id, 'generating'),
+            onSuccess: async rawImageBase64 => {
+                const finalImageBase64 = await cropImageToBase64(rawImageBase64, aspectRatio);
+                updateImageStatus(image.id, 'done', finalImageBase64);
+            },
+            onFailure: (err, cancelled) => {
+                if (!cancelled) setError(parseGeminiError(err));
+                updateImageStatus(image.id, 'error');
+            },
+        });
     };
     
-    const handleBatchGenerate = async () => {
-        setIsBatchGenerating(true);
+    // Only the first variation starts out selected, unless the scene already has a chosen image.
+    const createPlaceholders = (kept: ComicImage[], count: number): ComicImage[] => {
+        const hasSelection = kept.some(img => img.isSelected && img.status !== 'error');
+        return Array.from({ length: count }, (_, i) => createPlaceholder(!hasSelection && i === 0));
+    };
+
+    const handleBatchGenerate = () => {
         setError(null);
     
-        const placeholders: { sceneId: string, image: ComicImage }[] = [];
+        const queued: { scene: Scene, image: ComicImage, forceNew: boolean }[] = [];
         const scenesWithPlaceholders = scenes.map(scene => {
-            const shouldGenerate = scene.images.every(img => img.status !== 'done' && img.status !== 'generating');
-            if (shouldGenerate) {
-                const placeholder: ComicImage = {
-                    id: `img-${Date.now()}-${Math.random()}`,
-                    url: '',
-                    isSelected: true, 
-                    status: 'generating',
-                    duration: 3,
-                };
-                placeholders.push({ sceneId: scene.id, image: placeholder });
-                // Replace existing images (like error placeholders) with a new generating one
-                return { ...scene, images: [placeholder] };
-            }
-            return scene;
+            const kept = scene.images.filter(img => img.status === 'done' || img.status === 'generating');
+            if (kept.length > 0 && existingImagesMode === 'skip') return scene;
+            const missing = (scene.variationCount ?? variationCount) - kept.length;
+            if (missing <= 0) return scene;
+            const placeholders = createPlaceholders(kept, missing);
+            placeholders.forEach((image, i) => queued.push({ scene, image, forceNew: forceNewBatch || kept.length > 0 || i > 0 }));
+            // Error placeholders are replaced by the new attempts.
+            return { ...scene, images: [...kept, ...placeholders] };
         });
         setScenes(scenesWithPlaceholders);
     
-        // Now, iterate sequentially and generate.
-        for (const scene of scenes) {
-            const placeholderInfo = placeholders.find(p => p.sceneId === scene.id);
-            if (placeholderInfo) {
-                await runImageGeneration(scene, placeholderInfo.image, false);
-            }
+        // The queue decides how many of these run at once.
+        queued.forEach(({ scene, image, forceNew }) => queueImageGeneration(scene, image, forceNew));
+    };
+
+    const handleGenerateVariations = (sceneId: string) => {
+        const scene = scenes.find(s => s.id === sceneId);
+        if (!scene) return;
+        setError(null);
+        const placeholders = createPlaceholders(scene.images, scene.variationCount ?? variationCount);
+        setScenes(prevScenes => prevScenes.map(s => s.id === sceneId ? { ...s, images: [...s.images, ...placeholders] } : s));
+        placeholders.forEach(image => queueImageGeneration(scene, image, true));
+    };
+
+    const handleSceneVariationCountChange = (sceneId: string, value: string) => {
+        setScenes(prevScenes => prevScenes.map(scene => {
+            if (scene.id !== sceneId) return scene;
+            // An empty field falls back to the step-wide count.
+            return { ...scene, variationCount: value === '' ? undefined : clampVariations(Number(value)) };
+        }), { coalesceKey: `variationCount:${sceneId}` });
+    };
+
+    const handleStoryboardChange = (sceneId: string, changes: Partial<StoryboardFields>) => {
+        setScenes(prevScenes => prevScenes.map(scene => scene.id === sceneId ? { ...scene, ...changes } : scene),
+            { coalesceKey: `storyboard:${sceneId}:${Object.keys(changes).join(',')}` });
+    };
+
+    const handleToggleCast = (scene: Scene, characterId: string) => {
+        // An uncast scene implicitly holds the whole roster, so toggling starts from everyone.
+        const castIds = scene.castIds ?? characters.map(character => character.id);
+        const nextCastIds = castIds.includes(characterId) ? castIds.filter(id => id !== characterId) : [...castIds, characterId];
+        setScenes(prevScenes => prevScenes.map(s => s.id === scene.id ? { ...s, castIds: nextCastIds } : s));
+    };
+
+    // A scene added by hand starts empty, so its storyboard editor opens right away.
+    const handleInsertScene = (index: number) => {
+        const scene = createScene();
+        setScenes(insertScene(scenes, index, scene));
+        setOpenStoryboards(prev => [...prev, scene.id]);
+    };
+
+    const handleDuplicateScene = (index: number) => {
+        setScenes(insertScene(scenes, index + 1, duplicateScene(scenes[index])));
+    };
+
+    const handleDeleteScene = (scene: Scene, index: number) => {
+        const hasContent = scene.images.some(img => img.status === 'done') || scene.backgroundMusicFile || scene.overlay?.url;
+        if (hasContent && !window.confirm(`Xóa cảnh ${index + 1} cùng ảnh, nhạc nền và lớp phủ của cảnh?`)) return;
+        setScenes(scenes.filter(s => s.id !== scene.id));
+    };
+
+    const handleSplitScene = (index: number) => {
+        setScenes([...scenes.slice(0, index), ...splitScene(scenes[index]), ...scenes.slice(index + 1)]);
+    };
+
+    const handleMergeWithNext = (index: number) => {
+        const [first, second] = [scenes[index], scenes[index + 1]];
+        if (!second) return;
+        if (mergeDropsMedia(first, second) && !window.confirm(`Cả hai cảnh đều có nhạc nền hoặc lớp phủ. Khi gộp, chỉ giữ lại của cảnh ${index + 1}. Tiếp tục?`)) return;
+        setScenes([...scenes.slice(0, index), mergeScenes(first, second), ...scenes.slice(index + 2)]);
+    };
+
+    const handleSceneDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+        if (!draggedSceneId) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+    };
+
+    const handleSceneDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const fromIndex = scenes.findIndex(s => s.id === draggedSceneId);
+        if (fromIndex !== -1 && dropIndex !== null) {
+            // Removing the scene first shifts every later gap up by one.
+            setScenes(moveScene(scenes, fromIndex, dropIndex > fromIndex ? dropIndex - 1 : dropIndex));
         }
-    
-        setIsBatchGenerating(false);
+        setDraggedSceneId(null);
+        setDropIndex(null);
+    };
+
+    const handleSceneDragEnd = () => {
+        setDraggedSceneId(null);
+        setDropIndex(null);
+    };
+
+    const toggleStoryboardEditor = (sceneId: string) => {
+        setOpenStoryboards(prev => prev.includes(sceneId) ? prev.filter(id => id !== sceneId) : [...prev, sceneId]);
+    };
+
+    const handleSelectOnly = (sceneId: string, imageId: string) => {
+        setScenes(prevScenes => prevScenes.map(scene => scene.id === sceneId
+            ? { ...scene, images: scene.images.map(img => ({ ...img, isSelected: img.id === imageId })) }
+            : scene
+        ));
+    };
+
+    const handleSelectAllInScene = (sceneId: string, isSelected: boolean) => {
+        setScenes(prevScenes => prevScenes.map(scene => scene.id === sceneId
+            ? { ...scene, images: scene.images.map(img => img.status === 'done' ? { ...img, isSelected } : img) }
+            : scene
+        ));
     };
     
     const handleRetryGenerate = (sceneId: string, imageId: string) => {
         const scene = scenes.find(s => s.id === sceneId);
         const image = scene?.images.find(i => i.id === imageId);
         if (scene && image) {
-            updateImageStatus(sceneId, imageId, 'generating');
-            runImageGeneration(scene, image, true);
+            queueImageGeneration(scene, image, scene.images.some(img => img.status === 'done'));
         }
     };
 
@@ -206,40 +344,84 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
     const openEditModal = (sceneId: string, image: ComicImage) => {
         setEditingImage({ sceneId, image });
         setEditPrompt('');
+        setIsMaskingEdit(false);
+        setEditMask(null);
+    };
+
+    // The mask editor starts blank each time it opens, so a mask painted earlier must not linger unseen.
+    const handleEditScopeChange = (isMasking: boolean) => {
+        setIsMaskingEdit(isMasking);
+        setEditMask(null);
     };
 
     const handleEditImage = async () => {
-        if (!apiKey || !editingImage || !editPrompt) return;
+        if (!provider || !editingImage || !editPrompt) return;
         setIsEditing(true);
         setError(null);
         try {
             const { sceneId, image } = editingImage;
-            const newImageBase64 = await editImageWithPrompt(apiKey, image.url, 'image/png', editPrompt);
+            const prompt = withArtStyleText(editPrompt, getSelectedStyle(artStyle));
+            const mask = isMaskingEdit ? editMask : null;
+            const newImageBase64 = await runJob<string>({
+                label: 'Chỉnh sửa ảnh cảnh',
+                run: signal => mask
+                    ? editMaskedRegion(provider, image.url, mask, prompt, { signal, forceNew: forceNewEdit })
+                    : provider.editImageWithPrompt(image.url, 'image/png', prompt, { signal, forceNew: forceNewEdit }),
+            });
             setScenes(prevScenes => prevScenes.map(scene => {
                 if (scene.id === sceneId) {
                     return {
                         ...scene,
-                        images: scene.images.map(img => img.id === image.id ? { ...img, url: newImageBase64 } : img)
+                        images: scene.images.map(img => img.id === image.id ? withEditedRevision(img, newImageBase64, editPrompt) : img)
                     };
                 }
                 return scene;
             }));
             setEditingImage(null);
         } catch (error: unknown) {
-            const friendlyError = parseGeminiError(error);
-             if (apiKey && friendlyError.toLowerCase().includes('api key')) {
-                markApiKeyAsInvalid(apiKey);
-            }
-            setError(friendlyError);
+            if (!isAbortError(error)) setError(parseGeminiError(error));
         } finally {
             setIsEditing(false);
         }
     };
     
+    const handleRestoreRevision = (revision: ImageRevision) => {
+        if (!comparingImage) return;
+        setScenes(prevScenes => prevScenes.map(scene => scene.id === comparingImage.sceneId
+            ? { ...scene, images: scene.images.map(img => img.id === comparingImage.imageId ? withRestoredRevision(img, revision) : img) }
+            : scene
+        ));
+    };
+
+    const handleForkRevision = (revision: ImageRevision) => {
+        if (!comparingImage) return;
+        setScenes(prevScenes => prevScenes.map(scene => {
+            if (scene.id !== comparingImage.sceneId) return scene;
+            const source = scene.images.find(img => img.id === comparingImage.imageId);
+            return source ? { ...scene, images: [...scene.images, forkRevision(source, revision)] } : scene;
+        }));
+        setComparingImage(null);
+    };
+
+    const comparedImage = comparingImage
+        ? scenes.find(s => s.id === comparingImage.sceneId)?.images.find(i => i.id === comparingImage.imageId)
+        : undefined;
+
+    const bubbleScene = bubbleTarget ? scenes.find(s => s.id === bubbleTarget.sceneId) : undefined;
+    const bubbleImage = bubbleTarget ? bubbleScene?.images.find(i => i.id === bubbleTarget.imageId) : undefined;
+
+    const handleSaveBubbles = (bubbles: SpeechBubble[]) => {
+        if (bubbleTarget) setScenes(prev => withImageBubbles(prev, bubbleTarget.imageId, bubbles));
+        setBubbleTarget(null);
+    };
+
     const handleDownloadAll = async () => {
-        if (typeof (window as any).JSZip === 'undefined') {
-            setError('Lỗi: Thư viện nén file (JSZip) chưa được tải. Vui lòng kiểm tra kết nối mạng và làm mới trang.');
+        let JSZip: ReturnType<typeof getJSZip>;
+        try {
+            JSZip = getJSZip();
+        } catch (err) {
             console.error('JSZip library is not loaded.');
+            setError((err as Error).message);
             return;
         }
 
@@ -262,10 +444,10 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
         setError(null);
 
         try {
-            const zip = new (window as any).JSZip();
-            selectedImages.forEach((image) => {
-                zip.file(`scene-${image.sceneIndex}-image-${image.imgIndex}.png`, image.url, { base64: true });
-            });
+            const zip = new JSZip();
+            for (const image of selectedImages) {
+                zip.file(`scene-${image.sceneIndex}-image-${image.imgIndex}.png`, await renderImageWithBubbles(image), { base64: true });
+            }
 
             const zipBlob = await zip.generateAsync({ type: 'blob' });
 
@@ -285,6 +467,7 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
         }
     };
 
+    const isBatchGenerating = scenes.some(s => s.images.some(i => i.status === 'generating'));
     const allScenesHaveAtLeastOneImage = scenes.length > 0 && scenes.every(s => s.images.some(i => i.status === 'done'));
 
     return (
@@ -292,14 +475,37 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
             <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Bước 3: Tạo ảnh từ cảnh truyện</h2>
             <p className="text-slate-400 mb-8 text-center max-w-2xl mx-auto">Nhập nội dung truyện của bạn, ứng dụng sẽ tự động phân tích và tạo ra các khung cảnh tương ứng.</p>
 
+            {notice}
+
+            <ArtStylePanel artStyle={artStyle} setArtStyle={setArtStyle} />
+
+            <PromptTemplatePanel
+                templateIds={['storySplit', 'scene']}
+                overrides={promptTemplates}
+                setOverrides={setPromptTemplates}
+                previews={{
+                    storySplit: buildStorySplitPrompt(promptTemplates, storyText, numScenes ? parseInt(numScenes) : undefined),
+                    // The first scene stands in for all of them; the others differ only in their own fields.
+                    scene: scenes[0] && buildScenePrompt(promptTemplates, scenes[0], getSceneCast(scenes[0], characters), getSelectedStyle(artStyle)).prompt,
+                }}
+            />
+
             <div className="bg-slate-900/50 p-6 rounded-lg border border-slate-700 mb-8">
                 <textarea value={storyText} onChange={e => setStoryText(e.target.value)} placeholder="Nhập nội dung câu chuyện của bạn vào đây..." rows={6} className="w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 mb-4"></textarea>
                 <div className="flex flex-col sm:flex-row gap-4">
                     <input type="number" value={numScenes} onChange={e => setNumScenes(e.target.value)} placeholder="Số lượng cảnh (tùy chọn)" className="flex-1 p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500" />
-                    <button onClick={handleSplitScenes} disabled={isSplitting || !apiKey} className="flex-1 bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
+                    <button onClick={handleSplitScenes} disabled={isSplitting || !provider} className="flex-1 bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
                         {isSplitting ? <><Spinner /> Đang phân tích...</> : "Phân chia cảnh"}
                     </button>
                 </div>
+                <div className="mt-3">
+                    <ForceNewToggle provider={provider} checked={forceNewSplit} onChange={setForceNewSplit} />
+                </div>
+                {scenes.length === 0 && (
+                    <button onClick={() => handleInsertScene(0)} className="mt-3 text-primary-400 hover:text-primary-300 text-sm flex items-center gap-1">
+                        <PlusIcon className="w-4 h-4" /> Hoặc tự thêm cảnh đầu tiên
+                    </button>
+                )}
             </div>
 
             {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg my-6 text-center">{error}</div>}
@@ -335,18 +541,140 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
                                 </label>
                             ))}
                         </div>
-                        <button onClick={handleBatchGenerate} disabled={isBatchGenerating || !apiKey} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 disabled:bg-slate-600 shrink-0">
-                           {isBatchGenerating ? <><Spinner /> Đang tạo...</> : <><MagicIcon className="w-4 h-4" /> Bắt đầu tạo tất cả ảnh</>}
-                       </button>
+                        <div className="flex items-center flex-wrap gap-2 text-sm">
+                            <label htmlFor="variationCount" className="text-slate-300 font-semibold">Số biến thể mỗi cảnh:</label>
+                            <input
+                                id="variationCount"
+                                type="number"
+                                min={1}
+                                max={MAX_VARIATIONS}
+                                value={variationCount}
+                                onChange={e => setVariationCount(clampVariations(Number(e.target.value)))}
+                                className="w-16 p-1 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                            />
+                            <select
+                                value={existingImagesMode}
+                                onChange={e => setExistingImagesMode(e.target.value as ExistingImagesMode)}
+                                title="Cách xử lý cảnh đã có ảnh"
+                                className="p-1 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                            >
+                                <option value="skip">Bỏ qua cảnh đã có ảnh</option>
+                                <option value="top-up">Tạo bù cho đủ số biến thể</option>
+                            </select>
+                            <ForceNewToggle provider={provider} checked={forceNewBatch} onChange={setForceNewBatch} />
+                        </div>
+                        {isBatchGenerating ? (
+                            <button onClick={() => cancelJobs(SCENE_IMAGE_JOB_GROUP)} className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 shrink-0">
+                                <Spinner /> Đang tạo... Hủy
+                            </button>
+                        ) : (
+                            <button onClick={handleBatchGenerate} disabled={!provider} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 disabled:bg-slate-600 shrink-0">
+                                <MagicIcon className="w-4 h-4" /> Bắt đầu tạo tất cả ảnh
+                            </button>
+                        )}
                     </div>
 
                     <div className="space-y-6">
                         {scenes.map((scene, index) => (
-                            <div key={scene.id} className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
-                                <div className="mb-3">
-                                    <h4 className="font-bold text-lg text-primary-400">Cảnh {index + 1}</h4>
-                                    <p className="text-slate-300 text-sm">{scene.description}</p>
+                            <div
+                                key={scene.id}
+                                onDragOver={e => handleSceneDragOver(e, index)}
+                                onDrop={handleSceneDrop}
+                                className={`relative bg-slate-900/50 p-4 rounded-lg border border-slate-700 ${draggedSceneId === scene.id ? 'opacity-50' : ''}`}
+                            >
+                                {dropIndex === index && <div className="absolute -top-4 inset-x-0 h-1 bg-primary-500 rounded-full" />}
+                                {dropIndex === scenes.length && index === scenes.length - 1 && <div className="absolute -bottom-4 inset-x-0 h-1 bg-primary-500 rounded-full" />}
+                                <div className="mb-3 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center flex-wrap gap-2">
+                                            <span
+                                                draggable
+                                                onDragStart={e => {
+                                                    e.dataTransfer.effectAllowed = 'move';
+                                                    e.dataTransfer.setData('text/plain', scene.id);
+                                                    setDraggedSceneId(scene.id);
+                                                }}
+                                                onDragEnd={handleSceneDragEnd}
+                                                title="Kéo để đổi thứ tự"
+                                                className="cursor-grab text-slate-500 hover:text-slate-300"
+                                            >
+                                                <MoveIcon className="w-5 h-5" />
+                                            </span>
+                                            <h4 className="font-bold text-lg text-primary-400">Cảnh {index + 1}</h4>
+                                            <div className="flex items-center gap-1 text-xs text-slate-400">
+                                                <button onClick={() => handleInsertScene(index)} title="Chèn cảnh mới phía trước" className="flex items-center p-1 rounded hover:bg-slate-700 hover:text-slate-200"><PlusIcon className="w-3 h-3" />trước</button>
+                                                <button onClick={() => handleInsertScene(index + 1)} title="Chèn cảnh mới phía sau" className="flex items-center p-1 rounded hover:bg-slate-700 hover:text-slate-200"><PlusIcon className="w-3 h-3" />sau</button>
+                                                <button onClick={() => handleDuplicateScene(index)} title="Nhân bản cảnh" className="p-1 rounded hover:bg-slate-700 hover:text-slate-200"><DuplicateIcon className="w-4 h-4" /></button>
+                                                <button onClick={() => handleSplitScene(index)} title="Tách cảnh làm hai" className="p-1 rounded hover:bg-slate-700 hover:text-slate-200"><ScissorsIcon className="w-4 h-4" /></button>
+                                                {index < scenes.length - 1 && (
+                                                    <button onClick={() => handleMergeWithNext(index)} title="Gộp với cảnh tiếp theo" className="p-1 rounded hover:bg-slate-700 hover:text-slate-200"><MergeIcon className="w-4 h-4" /></button>
+                                                )}
+                                                <button onClick={() => handleDeleteScene(scene, index)} title="Xóa cảnh" className="p-1 rounded hover:bg-slate-700 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                                            </div>
+                                        </div>
+                                        {!openStoryboards.includes(scene.id) && (
+                                            <>
+                                                <p className="text-slate-300 text-sm">{scene.description}</p>
+                                                {(scene.shotType || scene.mood || scene.characters?.length) && (
+                                                    <p className="text-xs text-slate-500 mt-1">
+                                                        {[scene.shotType && shotTypeLabels[scene.shotType], scene.mood, scene.characters?.join(', ')].filter(Boolean).join(' · ')}
+                                                    </p>
+                                                )}
+                                                {scene.narration && <p className="text-sm text-slate-400 italic mt-1">{scene.narration}</p>}
+                                                {scene.dialogue?.map((line, lineIndex) => (
+                                                    <p key={lineIndex} className="text-sm text-slate-400 mt-1">
+                                                        {line.speaker && <span className="font-semibold text-slate-300">{line.speaker}: </span>}“{line.text}”
+                                                    </p>
+                                                ))}
+                                            </>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0 text-sm">
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_VARIATIONS}
+                                            value={scene.variationCount ?? ''}
+                                            placeholder={String(variationCount)}
+                                            onChange={e => handleSceneVariationCountChange(scene.id, e.target.value)}
+                                            title="Số biến thể cho cảnh này (để trống để dùng số chung)"
+                                            className="w-14 p-1 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                                        />
+                                        <button onClick={() => toggleStoryboardEditor(scene.id)} title="Sửa phân cảnh" className={`p-1.5 rounded-lg ${openStoryboards.includes(scene.id) ? 'bg-primary-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}>
+                                            <EditIcon className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => handleGenerateVariations(scene.id)} disabled={!provider} className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-1 px-3 rounded-lg flex items-center gap-1 disabled:bg-slate-600">
+                                            <MagicIcon className="w-4 h-4" /> Tạo biến thể
+                                        </button>
+                                    </div>
                                 </div>
+                                {characters.length > 0 && (
+                                    <div className="mb-3 flex items-center flex-wrap gap-2 text-sm">
+                                        <span className="text-slate-400">Nhân vật trong cảnh:</span>
+                                        {characters.map(character => {
+                                            const isCast = getSceneCast(scene, characters).includes(character);
+                                            return (
+                                                <button
+                                                    key={character.id}
+                                                    onClick={() => handleToggleCast(scene, character.id)}
+                                                    className={`px-3 py-1 rounded-full transition-colors ${isCast ? 'bg-primary-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                                                >
+                                                    {character.name || 'Chưa đặt tên'}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                                {openStoryboards.includes(scene.id) && (
+                                    <StoryboardEditor scene={scene} onChange={changes => handleStoryboardChange(scene.id, changes)} />
+                                )}
+                                {scene.images.filter(img => img.status === 'done').length > 1 && (
+                                    <div className="mb-3 flex items-center gap-3 text-xs text-slate-400">
+                                        <span>Đã chọn {scene.images.filter(img => img.status === 'done' && img.isSelected).length}/{scene.images.filter(img => img.status === 'done').length} ảnh cho video</span>
+                                        <button onClick={() => handleSelectAllInScene(scene.id, true)} className="text-primary-400 hover:underline">Chọn tất cả</button>
+                                        <button onClick={() => handleSelectAllInScene(scene.id, false)} className="text-primary-400 hover:underline">Bỏ chọn</button>
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
                                     {scene.images.map(image => (
                                         <div key={image.id} className="relative group aspect-square bg-slate-800 rounded-md flex items-center justify-center">
@@ -360,11 +688,21 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
                                             {image.status === 'done' && (
                                                  <>
                                                     <img src={`data:image/png;base64,${image.url}`} alt={`Ảnh cho cảnh ${index + 1}`} className="w-full h-full object-cover rounded-md" />
-                                                    <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-1 p-1">
+                                                    <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap items-center justify-center content-center gap-1 p-1">
+                                                        <button onClick={() => handleSelectOnly(scene.id, image.id)} title="Chỉ chọn ảnh này" className="bg-primary-600 hover:bg-primary-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><CheckIcon className="w-4 h-4"/></button>
                                                         <button onClick={() => setViewingImage(image.url)} title="Phóng to" className="bg-blue-600 hover:bg-blue-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><ZoomInIcon className="w-4 h-4"/></button>
                                                         <button onClick={() => openEditModal(scene.id, image)} title="Chỉnh sửa" className="bg-green-600 hover:bg-green-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><EditIcon className="w-4 h-4"/></button>
+                                                        <button onClick={() => setBubbleTarget({ sceneId: scene.id, imageId: image.id })} title="Lời thoại" className="bg-amber-600 hover:bg-amber-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><ChatBubbleIcon className="w-4 h-4"/></button>
+                                                        {image.revisions && image.revisions.length > 1 && (
+                                                            <button onClick={() => setComparingImage({ sceneId: scene.id, imageId: image.id })} title="Lịch sử chỉnh sửa" className="bg-purple-600 hover:bg-purple-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><HistoryIcon className="w-4 h-4"/></button>
+                                                        )}
                                                         <button onClick={() => handleDeleteImage(scene.id, image.id)} title="Xóa" className="bg-red-600 hover:bg-red-700 text-white w-8 h-8 rounded-full flex items-center justify-center"><TrashIcon className="w-4 h-4"/></button>
                                                     </div>
+                                                    {image.bubbles && (
+                                                        <span title={`${image.bubbles.length} khung thoại`} className="absolute top-2 left-2 bg-black/70 text-amber-300 text-xs rounded-full px-1.5 py-0.5 flex items-center gap-1 pointer-events-none">
+                                                            <ChatBubbleIcon className="w-3 h-3" />{image.bubbles.length}
+                                                        </span>
+                                                    )}
                                                     <input type="checkbox" checked={image.isSelected} onChange={() => handleToggleSelectImage(scene.id, image.id)} className="absolute top-2 right-2 form-checkbox h-5 w-5 text-primary-600 bg-gray-800 border-gray-600 rounded focus:ring-primary-500" />
                                                  </>
                                             )}
@@ -383,27 +721,41 @@ export const SceneStep: React.FC<SceneStepProps> = ({ apiKey, referenceImages, s
                             </div>
                         ))}
                     </div>
+                    <button onClick={() => handleInsertScene(scenes.length)} className="mt-4 w-full py-3 border-2 border-dashed border-slate-600 rounded-lg text-slate-400 hover:border-primary-500 hover:text-primary-400 flex items-center justify-center gap-2 transition-colors">
+                        <PlusIcon className="w-5 h-5" /> Thêm cảnh
+                    </button>
                 </div>
             )}
 
             <div className="flex justify-end mt-12">
                 <button onClick={onNext} disabled={!allScenesHaveAtLeastOneImage} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:bg-slate-600 disabled:cursor-not-allowed">
-                    Bước 4: Tạo Video <NextIcon className="w-5 h-5"/>
+                    Bước 4: Dàn trang <NextIcon className="w-5 h-5"/>
                 </button>
             </div>
             
-            <Modal isOpen={!!editingImage} onClose={() => setEditingImage(null)} title="Chỉnh sửa ảnh bằng AI" showCloseButton={false}>
+            <Modal isOpen={!!editingImage} onClose={() => setEditingImage(null)} title="Chỉnh sửa ảnh bằng AI" showCloseButton={false} maxWidthClassName={isMaskingEdit ? 'max-w-2xl' : 'max-w-lg'}>
                 <div className="space-y-4">
-                    <p className="text-slate-300">Nhập mô tả để AI tạo lại hình ảnh này.</p>
+                    <EditScopeToggle isMasking={isMaskingEdit} onChange={handleEditScopeChange} />
+                    {editingImage && isMaskingEdit && <MaskEditor key={editingImage.image.id} imageBase64={editingImage.image.url} onChange={setEditMask} />}
+                    <p className="text-slate-300">{isMaskingEdit ? 'Nhập mô tả thay đổi cho vùng đã tô.' : 'Nhập mô tả để AI tạo lại hình ảnh này.'}</p>
                     <textarea value={editPrompt} onChange={(e) => setEditPrompt(e.target.value)} rows={3} className="w-full p-2 bg-slate-900 border border-slate-700 rounded-md focus:ring-primary-500 focus:border-primary-500"></textarea>
+                    <ForceNewToggle provider={provider} checked={forceNewEdit} onChange={setForceNewEdit} />
                     <div className="text-right">
-                         <button onClick={handleEditImage} disabled={isEditing || !apiKey} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
+                         <button onClick={handleEditImage} disabled={isEditing || !provider || (isMaskingEdit && !editMask)} className="bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 disabled:bg-slate-600">
                            {isEditing ? <><Spinner /> Đang xử lý...</> : "Tạo lại ảnh"}
                         </button>
                     </div>
                 </div>
             </Modal>
             
+            <Modal isOpen={!!bubbleImage} onClose={() => setBubbleTarget(null)} title="Lời thoại và chú thích" showCloseButton={false} maxWidthClassName="max-w-5xl">
+                {bubbleImage && <BubbleEditor key={bubbleImage.id} image={bubbleImage} scene={bubbleScene} onSave={handleSaveBubbles} onCancel={() => setBubbleTarget(null)} />}
+            </Modal>
+
+            <Modal isOpen={!!comparedImage} onClose={() => setComparingImage(null)} title="Lịch sử chỉnh sửa ảnh" maxWidthClassName="max-w-3xl">
+                {comparedImage && <RevisionCompare image={comparedImage} onRestore={handleRestoreRevision} onFork={handleForkRevision} />}
+            </Modal>
+
             <Modal isOpen={!!viewingImage} onClose={() => setViewingImage(null)} title="Xem ảnh">
                 {viewingImage && <img src={`data:image/png;base64,${viewingImage}`} alt="Xem trước ảnh" className="w-full h-auto rounded-lg" />}
             </Modal>
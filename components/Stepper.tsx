@@ -9,7 +9,8 @@ const steps = [
     { number: 1, title: 'API Key' },
     { number: 2, title: 'Nhân vật' },
     { number: 3, title: 'Cảnh truyện' },
-    { number: 4, title: 'Tạo Video' }
+    { number: 4, title: 'Trang truyện' },
+    { number: 5, title: 'Tạo Video' }
 ];
 
 export const Stepper: React.FC<StepperProps> = ({ currentStep }) => {
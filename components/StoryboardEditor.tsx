@@ -0,0 +1,74 @@
+import React from 'react';
+import type { Scene, DialogueLine, ShotType } from '../types';
+import { SHOT_TYPES, shotTypeLabels } from '../services/storyboard';
+import { PlusIcon, TrashIcon } from './icons';
+
+export type StoryboardFields = Pick<Scene, 'description' | 'characters' | 'dialogue' | 'narration' | 'shotType' | 'mood'>;
+
+interface StoryboardEditorProps {
+    scene: Scene;
+    onChange: (changes: Partial<StoryboardFields>) => void;
+}
+
+const inputClassName = "w-full p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-primary-500 focus:border-primary-500 text-sm";
+
+/** Edits the storyboard fields of one scene: what to draw, who is in it, what they say and how it is framed. */
+export const StoryboardEditor: React.FC<StoryboardEditorProps> = ({ scene, onChange }) => {
+    const dialogue = scene.dialogue ?? [];
+
+    const updateLine = (index: number, changes: Partial<DialogueLine>) =>
+        onChange({ dialogue: dialogue.map((line, i) => i === index ? { ...line, ...changes } : line) });
+
+    return (
+        <div className="space-y-3 mb-4 p-3 bg-slate-800/40 rounded-lg border border-slate-700">
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Mô tả để vẽ</label>
+                <textarea value={scene.description} onChange={e => onChange({ description: e.target.value })} rows={2} className={inputClassName} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Nhân vật (phân cách bằng dấu phẩy)</label>
+                    <input
+                        type="text"
+                        value={(scene.characters ?? []).join(', ')}
+                        onChange={e => onChange({ characters: e.target.value.split(',').map(name => name.trimStart()) })}
+                        onBlur={() => onChange({ characters: (scene.characters ?? []).map(name => name.trim()).filter(Boolean) })}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Góc máy</label>
+                    <select value={scene.shotType ?? ''} onChange={e => onChange({ shotType: (e.target.value || undefined) as ShotType | undefined })} className={inputClassName}>
+                        <option value="">Không chỉ định</option>
+                        {SHOT_TYPES.map(shot => <option key={shot} value={shot}>{shotTypeLabels[shot]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Không khí</label>
+                    <input type="text" value={scene.mood ?? ''} onChange={e => onChange({ mood: e.target.value })} className={inputClassName} />
+                </div>
+            </div>
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Lời dẫn truyện</label>
+                <textarea value={scene.narration ?? ''} onChange={e => onChange({ narration: e.target.value })} rows={2} className={inputClassName} />
+            </div>
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Lời thoại</label>
+                <div className="space-y-2">
+                    {dialogue.map((line, index) => (
+                        <div key={index} className="flex gap-2">
+                            <input type="text" value={line.speaker} onChange={e => updateLine(index, { speaker: e.target.value })} placeholder="Người nói" className={`${inputClassName} sm:w-40 w-28 shrink-0`} />
+                            <input type="text" value={line.text} onChange={e => updateLine(index, { text: e.target.value })} placeholder="Lời thoại" className={inputClassName} />
+                            <button onClick={() => onChange({ dialogue: dialogue.filter((_, i) => i !== index) })} title="Xóa lời thoại" className="text-slate-400 hover:text-red-400 p-2 shrink-0">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={() => onChange({ dialogue: [...dialogue, { speaker: scene.characters?.[0] ?? '', text: '' }] })} className="text-primary-400 hover:text-primary-300 text-sm flex items-center gap-1">
+                        <PlusIcon className="w-4 h-4" /> Thêm lời thoại
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { TURNAROUND_VIEWS, getSheetImages } from '../services/turnaroundSheet';
+import type { TurnaroundSheet, TurnaroundView } from '../services/turnaroundSheet';
+import { Spinner } from './Spinner';
+import { TrashIcon, RetryIcon, ZoomInIcon } from './icons';
+
+interface TurnaroundSheetCardProps {
+    sheet: TurnaroundSheet;
+    targetName: string; // the character the sheet is added to
+    onAddToReferences: () => void;
+    onRetry: (view: TurnaroundView) => void;
+    onView: (url: string) => void;
+    onDelete: () => void;
+}
+
+export const TurnaroundSheetCard: React.FC<TurnaroundSheetCardProps> = ({ sheet, targetName, onAddToReferences, onRetry, onView, onDelete }) => {
+    const doneCount = getSheetImages(sheet).length;
+    const isGenerating = TURNAROUND_VIEWS.some(view => sheet.panels[view.id].status === 'generating');
+
+    const renderRow = (kind: TurnaroundView['kind'], title: string, columnsClassName: string) => (
+        <div>
+            <p className="text-xs font-medium text-slate-400 mb-1">{title}</p>
+            <div className={`grid ${columnsClassName} gap-2`}>
+                {TURNAROUND_VIEWS.filter(view => view.kind === kind).map(view => {
+                    const panel = sheet.panels[view.id];
+                    return (
+                        <div key={view.id} className="relative group aspect-square bg-slate-800 rounded-md flex items-center justify-center border-2 border-transparent data-[status=generating]:border-primary-500 data-[status=generating]:animate-pulse data-[status=error]:border-red-500" data-status={panel.status}>
+                            {panel.status === 'generating' && <Spinner />}
+                            {panel.status === 'error' && (
+                                <button onClick={() => onRetry(view)} title="Thử lại" className="bg-red-600 hover:bg-red-700 text-white p-2 rounded-full"><RetryIcon className="w-4 h-4" /></button>
+                            )}
+                            {panel.status === 'done' && (
+                                <>
+                                    <img src={`data:image/png;base64,${panel.url}`} alt={view.label} className="w-full h-full object-cover rounded-md" />
+                                    <button onClick={() => onView(panel.url)} title="Phóng to" className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center rounded-md">
+                                        <ZoomInIcon className="w-5 h-5 text-white" />
+                                    </button>
+                                </>
+                            )}
+                            <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-center text-slate-200 rounded-b-md pointer-events-none">{view.label}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+                <p className="text-sm text-slate-300 line-clamp-2" title={sheet.description}>{sheet.description}</p>
+                <button onClick={onDelete} title="Xóa bộ ảnh" className="text-slate-400 hover:text-red-400 p-1 shrink-0">
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {renderRow('view', 'Góc nhìn', 'grid-cols-3')}
+            {renderRow('expression', 'Biểu cảm', 'grid-cols-4')}
+            <button onClick={onAddToReferences} disabled={doneCount === 0 || isGenerating} className="w-full bg-primary-600 hover:bg-primary-700 text-white font-bold py-2 px-3 text-sm rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                {isGenerating ? `Đang tạo ${doneCount}/${TURNAROUND_VIEWS.length}...` : `Thêm cả bộ (${doneCount} ảnh) vào ${targetName}`}
+            </button>
+        </div>
+    );
+};
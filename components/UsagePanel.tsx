@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { listUsageRecords, clearUsageRecords, summarizeUsageByKey, usageRecordsToCsv, API_USAGE_RECORDED_EVENT } from '../services/usageTracker';
+import type { UsageRecord } from '../services/usageTracker';
+import { DownloadIcon, TrashIcon } from './icons';
+
+const MAX_DAYS_SHOWN = 7;
+
+const formatCost = (usd: number) => `$${usd.toFixed(2)}`;
+const formatErrorRate = (errors: number, calls: number) => calls > 0 ? `${Math.round((errors / calls) * 100)}%` : '0%';
+
+export const UsagePanel: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const loadRecords = async () => {
+            try {
+                setRecords(await listUsageRecords());
+                setError(null);
+            } catch (err) {
+                console.error("Failed to load API usage:", err);
+                setError('Không thể tải thống kê sử dụng.');
+            }
+        };
+        loadRecords();
+        window.addEventListener(API_USAGE_RECORDED_EVENT, loadRecords);
+        return () => window.removeEventListener(API_USAGE_RECORDED_EVENT, loadRecords);
+    }, [isOpen]);
+
+    const summaries = summarizeUsageByKey(records);
+    const totalCost = summaries.reduce((sum, summary) => sum + summary.estimatedCost, 0);
+
+    const handleExportCsv = () => {
+        const blob = new Blob([usageRecordsToCsv(records)], { type: 'text/csv;charset=utf-8' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `api-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Xóa toàn bộ thống kê sử dụng API?')) return;
+        try {
+            await clearUsageRecords();
+        } catch (err) {
+            console.error("Failed to clear API usage:", err);
+            setError('Không thể xóa thống kê sử dụng.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl mt-8 bg-slate-900/50 border border-slate-700 rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full cursor-pointer p-4 font-semibold text-primary-400 flex justify-between items-center text-left"
+                aria-expanded={isOpen}
+                aria-controls="api-usage-panel"
+            >
+                <span>Thống kê sử dụng & chi phí</span>
+                <svg className={`w-5 h-5 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div id="api-usage-panel" className="p-4 border-t border-slate-700 text-left space-y-4">
+                    {error && <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm">{error}</div>}
+                    {summaries.length === 0 ? (
+                        <p className="text-slate-400 text-sm text-center">Chưa có yêu cầu nào được ghi nhận.</p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-slate-400">
+                                Tổng {records.length} yêu cầu · Chi phí ước tính <span className="font-semibold text-slate-200">{formatCost(totalCost)}</span>
+                            </p>
+                            {summaries.map(summary => (
+                                <div key={summary.keyId ?? summary.keyName} className="bg-slate-800/60 rounded-lg p-3">
+                                    <div className="flex justify-between items-baseline gap-2 mb-2">
+                                        <p className="font-semibold text-slate-100 truncate" title={summary.keyName}>{summary.keyName}</p>
+                                        <p className="text-xs text-slate-400 flex-shrink-0">
+                                            {summary.calls} yêu cầu · Lỗi {formatErrorRate(summary.errors, summary.calls)} · {formatCost(summary.estimatedCost)}
+                                        </p>
+                                    </div>
+                                    <table className="w-full text-xs text-slate-300">
+                                        <thead>
+                                            <tr className="text-slate-500">
+                                                <th className="text-left font-medium py-1">Ngày</th>
+                                                <th className="text-right font-medium py-1">Yêu cầu</th>
+                                                <th className="text-right font-medium py-1">Tỷ lệ lỗi</th>
+                                                <th className="text-right font-medium py-1">Chi phí</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {summary.days.slice(0, MAX_DAYS_SHOWN).map(day => (
+                                                <tr key={day.date} className="border-t border-slate-700/50">
+                                                    <td className="py-1">{new Date(`${day.date}T00:00:00`).toLocaleDateString('vi-VN')}</td>
+                                                    <td className="text-right py-1">{day.calls}</td>
+                                                    <td className={`text-right py-1 ${day.errors > 0 ? 'text-amber-400' : ''}`}>{formatErrorRate(day.errors, day.calls)}</td>
+                                                    <td className="text-right py-1">{formatCost(day.estimatedCost)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ))}
+                            <p className="text-xs text-slate-500">Chi phí chỉ là ước tính dựa trên giá niêm yết cho mỗi yêu cầu thành công; hóa đơn thực tế có thể khác.</p>
+                        </>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={handleClear} disabled={records.length === 0} className="bg-red-600/50 hover:bg-red-600 text-white text-sm font-bold py-2 px-3 rounded-lg flex items-center gap-2 disabled:bg-slate-600">
+                            <TrashIcon className="w-4 h-4" /> Xóa thống kê
+                        </button>
+                        <button onClick={handleExportCsv} disabled={records.length === 0} className="bg-teal-600 hover:bg-teal-700 text-white text-sm font-bold py-2 px-3 rounded-lg flex items-center gap-2 disabled:bg-slate-600">
+                            <DownloadIcon className="w-4 h-4" /> Xuất CSV
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import type { Scene, SceneOverlay, VideoSegment } from '../types';
 import type { VideoConfig } from '../App';
+import type { HistoryOptions, HistorySetter } from '../hooks/useHistory';
+import { clearFlattenCache, flattenSceneBubbles } from '../services/speechBubbles';
+import { isAbortError } from '../services/utils';
 import { UploadIcon, PlayIcon, DownloadIcon, EditIcon, PauseIcon, RewindIcon, MagicIcon, MoveIcon, TrashIcon } from './icons';
 
 interface MediaTimelineEntry {
@@ -14,7 +17,7 @@ interface MediaTimelineEntry {
 
 interface SceneAudioPreviewerProps {
     scene: Scene;
-    onUpdate: (updates: Partial<Scene>) => void;
+    onUpdate: (updates: Partial<Scene>, options?: HistoryOptions) => void;
 }
 
 const SceneAudioPreviewer: React.FC<SceneAudioPreviewerProps> = ({ scene, onUpdate }) => {
@@ -36,7 +39,7 @@ const SceneAudioPreviewer: React.FC<SceneAudioPreviewerProps> = ({ scene, onUpda
             onUpdate({
                 backgroundMusicDuration: duration,
                 backgroundMusicTrimEnd: scene.backgroundMusicTrimEnd === null || (scene.backgroundMusicTrimEnd || 0) > duration ? duration : scene.backgroundMusicTrimEnd
-            });
+            }, { record: false });
         }
     };
 
@@ -813,9 +816,9 @@ const IntroOutroEditor: React.FC<{
 interface VideoStepProps {
     apiKey: string | null;
     scenes: Scene[];
-    setScenes: React.Dispatch<React.SetStateAction<Scene[]>>;
+    setScenes: HistorySetter<Scene[]>;
     videoConfig: VideoConfig;
-    setVideoConfig: (config: VideoConfig) => void;
+    setVideoConfig: (config: VideoConfig, options?: HistoryOptions) => void;
 }
 
 export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes, videoConfig, setVideoConfig }) => {
@@ -827,6 +830,27 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
     const [exportedVideoBlob, setExportedVideoBlob] = useState<Blob | null>(null);
     const [audioDuration, setAudioDuration] = useState(0);
     const [playbackRate, setPlaybackRate] = useState(1);
+    const [previewScenes, setPreviewScenes] = useState<Scene[]>(scenes);
+
+    // The preview plays the same flattened images the export will use. Flattening is cached per image,
+    // so after the first pass an update only waits on the images whose bubbles changed.
+    useEffect(() => {
+        let cancelled = false;
+        flattenSceneBubbles(scenes)
+            .then(flattened => {
+                if (!cancelled) setPreviewScenes(flattened);
+            })
+            .catch(error => console.error("Failed to draw speech bubbles for the preview:", error));
+        return () => { cancelled = true; };
+    }, [scenes]);
+
+    // Aborted when the step unmounts, so an export that is still drawing bubbles or loading media stops there.
+    const exportControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => {
+        exportControllerRef.current?.abort();
+        clearFlattenCache();
+    }, []);
     
     const audioPreviewRef = useRef<HTMLAudioElement>(null);
     const [audioPreviewTime, setAudioPreviewTime] = useState(0);
@@ -895,17 +919,18 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
         if (isFinite(duration)) {
              setAudioDuration(duration);
             if(videoConfig.trimEnd === null || videoConfig.trimEnd > duration) {
-                setVideoConfig({ ...videoConfig, trimEnd: duration });
+                setVideoConfig({ ...videoConfig, trimEnd: duration }, { record: false });
             }
         }
     }
 
-    const handleSceneUpdate = (sceneId: string, updates: Partial<Scene>) => {
-        setScenes(scenes.map(s => s.id === sceneId ? { ...s, ...updates } : s));
+    const handleSceneUpdate = (sceneId: string, updates: Partial<Scene>, options?: HistoryOptions) => {
+        // Repeated updates to the same fields (slider drags, typing) collapse into one undo step.
+        setScenes(scenes.map(s => s.id === sceneId ? { ...s, ...updates } : s), options ?? { coalesceKey: `scene-${sceneId}:${Object.keys(updates).sort().join(',')}` });
     };
 
     const handleOverlayChange = (sceneId: string, overlay: SceneOverlay) => {
-        handleSceneUpdate(sceneId, { overlay });
+        handleSceneUpdate(sceneId, { overlay }, { coalesceKey: `overlay-${sceneId}` });
     };
 
     const handleImageDurationChange = (sceneId: string, imageId: string, durationStr: string) => {
@@ -921,7 +946,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
                 };
             }
             return s;
-        }));
+        }), { coalesceKey: `duration-${imageId}` });
     };
     
     const handleAutoAdjustDurations = () => {
@@ -1063,6 +1088,25 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
         if (!canCreateVideo) return;
         const hasNarration = !!videoConfig.audioFile;
 
+        setIsExporting(true);
+        setVideoReady(false);
+        setExportedVideoUrl(null);
+        setExportProgress(0);
+        // The recorder only sees pixels, so bubbles are drawn into the images first.
+        setExportMessage("Đang vẽ lời thoại vào ảnh...");
+        const controller = new AbortController();
+        exportControllerRef.current = controller;
+        let exportScenes: Scene[];
+        try {
+            exportScenes = await flattenSceneBubbles(scenes, controller.signal);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error("Failed to draw speech bubbles for the export:", error);
+            setExportMessage(`Lỗi: ${error instanceof Error ? error.message : String(error)}`);
+            setIsExporting(false);
+            return;
+        }
+
         const { mediaTimeline, totalDuration, sceneTimings, introDuration, outroDuration } = (() => {
             const timeline: MediaTimelineEntry[] = [];
             const timings: { id: string, startTime: number, duration: number }[] = [];
@@ -1076,7 +1120,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
                 introDur = duration;
             }
 
-            scenes.forEach(scene => {
+            exportScenes.forEach(scene => {
                 const sceneStartTime = cumulativeTime;
                 let sceneDuration = 0;
                 const selectedImages = scene.images.filter(img => img.status === 'done' && img.isSelected);
@@ -1102,20 +1146,16 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
             return { mediaTimeline: timeline, totalDuration: cumulativeTime, sceneTimings: timings, introDuration: introDur, outroDuration: outroDur };
         })();
         
-        setIsExporting(true);
-        setVideoReady(false);
-        setExportedVideoUrl(null);
-        setExportProgress(0);
         setExportMessage("Khởi tạo...");
         
         const mediaElements: { [key: string]: HTMLImageElement | HTMLVideoElement } = {};
-        const sceneOverlayUrls = scenes.map(s => s.overlay?.url).filter((url): url is string => !!url);
+        const sceneOverlayUrls = exportScenes.map(s => s.overlay?.url).filter((url): url is string => !!url);
         const allUrlsToLoad = [...new Set([...mediaTimeline.map(img => img.url), ...sceneOverlayUrls])];
 
         let loadedMediaCount = 0;
         
         const preloadPromises = allUrlsToLoad.map(url => new Promise<void>((resolve, reject) => {
-            const isVideo = mediaTimeline.some(m => m.url === url && m.type === 'video') || scenes.some(s => s.overlay?.url === url && s.overlay.type === 'video');
+            const isVideo = mediaTimeline.some(m => m.url === url && m.type === 'video') || exportScenes.some(s => s.overlay?.url === url && s.overlay.type === 'video');
             const element: HTMLImageElement | HTMLVideoElement = isVideo ? document.createElement('video') : new Image();
             
             const onMediaLoad = () => {
@@ -1138,6 +1178,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
         }));
 
         await Promise.all(preloadPromises);
+        if (controller.signal.aborted) return;
 
         setExportMessage("Chuẩn bị stream media...");
         await new Promise(res => setTimeout(res, 200));
@@ -1200,7 +1241,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
                  })());
             }
 
-            scenes.forEach((scene) => {
+            exportScenes.forEach((scene) => {
                 const sceneTiming = sceneTimings.find(t => t.id === scene.id);
                 if (!sceneTiming || sceneTiming.duration <= 0) return;
 
@@ -1316,7 +1357,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
                 }
                 
                 const currentSceneTiming = sceneTimings.find(t => elapsedTime >= t.startTime && elapsedTime < t.startTime + t.duration);
-                const currentScene = scenes.find(s => s.id === currentSceneTiming?.id);
+                const currentScene = exportScenes.find(s => s.id === currentSceneTiming?.id);
                 if (currentScene?.overlay?.url) {
                     const overlayEl = mediaElements[currentScene.overlay.url];
                     if (overlayEl) {
@@ -1374,7 +1415,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
 
     return (
         <div>
-            <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Bước 4: Tạo Video</h2>
+            <h2 className="text-2xl font-bold mb-4 text-primary-400 text-center">Bước 5: Tạo Video</h2>
             <p className="text-slate-400 mb-8 text-center max-w-2xl mx-auto">Tải lên giọng kể, thêm nhạc nền cho từng cảnh, điều chỉnh thời gian và xuất video của bạn.</p>
 
             {videoReady && exportedVideoUrl ? (
@@ -1509,7 +1550,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
                                               <div className="h-16 flex items-center justify-center text-xs text-slate-500 text-center">Chọn ảnh ở Bước 3 để đưa vào video</div>
                                           )}
                                        </div>
-                                       <SceneAudioPreviewer scene={scene} onUpdate={(updates) => handleSceneUpdate(scene.id, updates)} />
+                                       <SceneAudioPreviewer scene={scene} onUpdate={(updates, options) => handleSceneUpdate(scene.id, updates, options)} />
                                        <SceneOverlayEditor scene={scene} onUpdate={(updates) => handleSceneUpdate(scene.id, updates)} />
                                    </div>
                                ))}
@@ -1527,7 +1568,7 @@ export const VideoStep: React.FC<VideoStepProps> = ({ apiKey, scenes, setScenes,
 
                     <div className="flex-grow flex flex-col min-w-0">
                         <VideoPlayer 
-                            scenes={scenes} 
+                            scenes={previewScenes} 
                             videoConfig={videoConfig}
                             playbackRate={playbackRate}
                             onOverlayChange={handleOverlayChange}
@@ -0,0 +1,105 @@
+import { useState, useCallback } from 'react';
+
+const HISTORY_LIMIT = 100;
+// Updates sharing a coalesce key that arrive within this window (e.g. a drag or a slider) become one entry.
+const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryOptions {
+    /** Set to false for updates that should not be undoable on their own, such as generation progress. */
+    record?: boolean;
+    coalesceKey?: string;
+}
+
+type SetStateAction<T> = T | ((prev: T) => T);
+
+export type HistorySetter<T> = (action: SetStateAction<T>, options?: HistoryOptions) => void;
+
+interface HistoryState<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    lastKey: string | null;
+    lastTime: number;
+}
+
+const resolveAction = <T>(action: SetStateAction<T>, prev: T): T =>
+    typeof action === 'function' ? (action as (prevState: T) => T)(prev) : action;
+
+export const changedKeys = <T extends object>(prev: T, next: T): string =>
+    (Object.keys(next) as (keyof T)[]).filter(key => prev[key] !== next[key]).sort().join(',');
+
+/**
+ * Keeps a bounded undo/redo stack of whole snapshots. `reconcile` lets the caller carry state that
+ * changed outside the history (e.g. a generation finishing) into a snapshot being restored.
+ */
+export const useHistory = <T>(initial: T, reconcile: (restored: T, current: T) => T = restored => restored) => {
+    const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [], lastKey: null, lastTime: 0 });
+
+    const set: HistorySetter<T> = useCallback((action: SetStateAction<T>, options: HistoryOptions = {}) => {
+        setState((prev: HistoryState<T>) => {
+            const next = resolveAction(action, prev.present);
+            if (Object.is(next, prev.present)) return prev;
+            if (options.record === false) return { ...prev, present: next };
+
+            const now = Date.now();
+            const coalesce = !!options.coalesceKey && options.coalesceKey === prev.lastKey && now - prev.lastTime < COALESCE_WINDOW_MS;
+            return {
+                past: coalesce ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+                present: next,
+                future: [],
+                lastKey: options.coalesceKey ?? null,
+                lastTime: now,
+            };
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setState((prev: HistoryState<T>) => {
+            if (prev.past.length === 0) return prev;
+            const restored = prev.past[prev.past.length - 1];
+            return {
+                past: prev.past.slice(0, -1),
+                present: reconcile(restored, prev.present),
+                future: [prev.present, ...prev.future],
+                lastKey: null,
+                lastTime: 0,
+            };
+        });
+    }, [reconcile]);
+
+    const redo = useCallback(() => {
+        setState((prev: HistoryState<T>) => {
+            if (prev.future.length === 0) return prev;
+            const [restored, ...future] = prev.future;
+            return {
+                past: [...prev.past, prev.present],
+                present: reconcile(restored, prev.present),
+                future,
+                lastKey: null,
+                lastTime: 0,
+            };
+        });
+    }, [reconcile]);
+
+    const reset = useCallback((value: T) => {
+        setState({ past: [], present: value, future: [], lastKey: null, lastTime: 0 });
+    }, []);
+
+    return {
+        present: state.present,
+        set,
+        undo,
+        redo,
+        reset,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+    };
+};
+
+/** Narrows a setter for a whole document down to one of its fields. */
+export const fieldSetter = <T extends object, K extends keyof T>(set: HistorySetter<T>, key: K): HistorySetter<T[K]> =>
+    (action, options) => set(prev => {
+        const next = resolveAction(action, prev[key]);
+        // Hand back the same document when the field did not change, so `set` records no empty undo step.
+        return Object.is(next, prev[key]) ? prev : { ...prev, [key]: next };
+    }, options);
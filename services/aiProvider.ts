@@ -0,0 +1,72 @@
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createStableDiffusionProvider } from './stableDiffusionProvider';
+import { createMockProvider } from './mockProvider';
+import type { MockScenario } from './mockProvider';
+import { getProviderSecret } from './keyVault';
+import type { StoryboardScene } from '../types';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'stable-diffusion' | 'mock';
+
+export interface RequestOptions {
+    signal?: AbortSignal; // cancels the request (see jobQueue)
+    forceNew?: boolean; // skip cached responses; only providers with a cache look at it
+}
+
+/**
+ * Everything the steps need from an AI backend. Images go in and come out as base64 without a data URI
+ * prefix, matching what the rest of the app stores.
+ */
+export interface AiProvider {
+    id: ProviderId;
+    generateImageFromText: (prompt: string, aspectRatio?: string, options?: RequestOptions) => Promise<string>;
+    editImageWithPrompt: (base64Image: string, mimeType: string, prompt: string, options?: RequestOptions) => Promise<string>;
+    editImageRegion: (base64Image: string, maskBase64: string, prompt: string, options?: RequestOptions) => Promise<string>; // mask format in imageMask
+    generateSceneImage: (referenceImages: string[], prompt: string, options?: RequestOptions) => Promise<string>;
+    splitStoryIntoScenes: (prompt: string, options?: RequestOptions) => Promise<StoryboardScene[]>; // `prompt` is the rendered story-split template
+}
+
+/** Saved per project. Gemini uses the keys from step 1; the HTTP providers carry their own endpoint. */
+export interface ProviderSettings {
+    providerId: ProviderId;
+    baseUrl: string;
+    apiKeyId?: string; // the key itself is kept with the saved API keys (see keyVault), never in the project
+    imageModel: string;
+    textModel: string;
+    mockScenario?: MockScenario;
+}
+
+export const defaultProviderSettings: ProviderSettings = {
+    providerId: 'gemini',
+    baseUrl: '',
+    imageModel: '',
+    textModel: '',
+    mockScenario: 'success',
+};
+
+export const providerLabels: { [id in ProviderId]: string } = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'Tương thích OpenAI',
+    'stable-diffusion': 'Stable Diffusion (tự host)',
+    'mock': 'Mô phỏng ngoại tuyến (không tốn hạn ngạch)',
+};
+
+/**
+ * Returns null while the provider is not configured well enough to make a request. The HTTP providers' key is
+ * looked up here, so a locked vault leaves them without one until it is unlocked and the provider recreated.
+ */
+export const createProvider = (settings: ProviderSettings, geminiApiKey: string | null): AiProvider | null => {
+    const apiKey = settings.apiKeyId ? getProviderSecret(settings.apiKeyId) ?? '' : '';
+    switch (settings.providerId) {
+        case 'gemini':
+            return geminiApiKey ? createGeminiProvider(geminiApiKey) : null;
+        case 'openai-compatible':
+            return settings.baseUrl && settings.imageModel ? createOpenAiCompatibleProvider(settings, apiKey) : null;
+        case 'stable-diffusion':
+            return settings.baseUrl ? createStableDiffusionProvider(settings, apiKey) : null;
+        case 'mock':
+            return createMockProvider(settings.mockScenario ?? 'success');
+        default:
+            return null;
+    }
+};
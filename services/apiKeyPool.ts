@@ -0,0 +1,107 @@
+import type { SavedApiKey } from '../types';
+import { markApiKeyAsExhausted, markApiKeyAsInvalid, setApiKeyCapabilities, isQuotaError, isInvalidKeyError, isModelUnavailableError } from './utils';
+import { getSavedApiKeys } from './keyVault';
+import { recordUsage } from './usageTracker';
+import type { UsageOutcome } from './usageTracker';
+
+export const API_KEY_SERVED_EVENT = 'apiKeyServed';
+
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+export interface ApiKeyServedDetail {
+    keyId: string | null; // null when the key is not in the saved list (e.g. provided by the environment)
+    keyName: string;
+    operation: string;
+    timestamp: number;
+    failedOverFrom: string[]; // names of keys that were tried first and ran out of quota or were rejected
+}
+
+const describeKey = (keyValue: string, savedKeys: SavedApiKey[]) => {
+    const saved = savedKeys.find(key => key.value === keyValue);
+    return { keyId: saved?.id ?? null, keyName: saved?.name ?? `...${keyValue.slice(-4)}` };
+};
+
+// Gemini quota errors usually carry a RetryInfo detail such as "retryDelay": "37s".
+const getCooldownMs = (error: unknown): number => {
+    const message = error instanceof Error ? error.message : '';
+    const match = message.match(/retryDelay\W+(\d+(?:\.\d+)?)s/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : DEFAULT_COOLDOWN_MS;
+};
+
+const isHealthy = (key: SavedApiKey, now: number) =>
+    key.status !== 'invalid' && !(key.status === 'exhausted' && (key.exhaustedUntil ?? 0) > now);
+
+/** Keys that were never probed are assumed to work until a call proves otherwise. */
+export const canKeyUseModel = (key: SavedApiKey, model: string) => key.capabilities?.[model] !== 'unavailable';
+
+const isUsable = (key: SavedApiKey, model: string, now: number) => isHealthy(key, now) && canKeyUseModel(key, model);
+
+/**
+ * The preferred key first, then every other saved key that is healthy and can reach the model.
+ * If nothing qualifies the preferred key is still tried, since a cooldown is only an estimate.
+ */
+const getCandidateKeys = (preferredKey: string, model: string, savedKeys: SavedApiKey[]): string[] => {
+    const now = Date.now();
+    const preferred = savedKeys.find(key => key.value === preferredKey);
+    const candidates = !preferred || isUsable(preferred, model, now) ? [preferredKey] : [];
+    savedKeys.forEach(key => {
+        if (key.value !== preferredKey && isUsable(key, model, now)) candidates.push(key.value);
+    });
+    return candidates.length > 0 ? candidates : [preferredKey];
+};
+
+const classifyOutcome = (error: unknown): UsageOutcome => {
+    if (isQuotaError(error)) return 'quota';
+    if (isModelUnavailableError(error)) return 'unavailable';
+    if (isInvalidKeyError(error)) return 'invalid';
+    return 'error';
+};
+
+/** Runs a single call with one specific key and records it for the usage dashboard. */
+export const trackedCall = async <T>(keyValue: string, operation: string, model: string, run: () => Promise<T>): Promise<T> => {
+    const key = describeKey(keyValue, getSavedApiKeys());
+    const startedAt = Date.now();
+    const record = (outcome: UsageOutcome) =>
+        recordUsage({ ...key, model, operation, timestamp: startedAt, latencyMs: Date.now() - startedAt, outcome });
+    try {
+        const result = await run();
+        record('success');
+        return result;
+    } catch (error) {
+        record(classifyOutcome(error));
+        throw error;
+    }
+};
+
+/** Runs `run` with the first key that works and records every attempt for the usage dashboard. */
+export const withKeyRotation = async <T>(preferredKey: string, operation: string, model: string, run: (apiKey: string) => Promise<T>): Promise<T> => {
+    const savedKeys = getSavedApiKeys();
+    const candidates = getCandidateKeys(preferredKey, model, savedKeys);
+    const failedOverFrom: string[] = [];
+    let lastError: unknown;
+
+    for (const keyValue of candidates) {
+        const key = describeKey(keyValue, savedKeys);
+        try {
+            const result = await trackedCall(keyValue, operation, model, () => run(keyValue));
+            setApiKeyCapabilities(keyValue, { [model]: 'available' });
+            const detail: ApiKeyServedDetail = { ...key, operation, timestamp: Date.now(), failedOverFrom };
+            window.dispatchEvent(new CustomEvent<ApiKeyServedDetail>(API_KEY_SERVED_EVENT, { detail }));
+            return result;
+        } catch (error) {
+            const outcome = classifyOutcome(error);
+            if (outcome === 'quota') {
+                markApiKeyAsExhausted(keyValue, Date.now() + getCooldownMs(error));
+            } else if (outcome === 'unavailable') {
+                setApiKeyCapabilities(keyValue, { [model]: 'unavailable' });
+            } else if (outcome === 'invalid') {
+                markApiKeyAsInvalid(keyValue);
+            } else {
+                throw error;
+            }
+            failedOverFrom.push(key.keyName);
+            lastError = error;
+        }
+    }
+    throw lastError;
+};
@@ -0,0 +1,89 @@
+import type { ArtStyleSettings, StylePreset } from '../types';
+
+// The project's art style and how it is worded into prompts. Built-in presets ship with the app; custom ones live in the project.
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+    {
+        id: 'builtin-manga',
+        name: 'Manga',
+        positive: 'Japanese manga style, black and white ink, screentone shading, expressive eyes, dynamic speed lines',
+        negative: 'color, photorealism, 3D render',
+        referenceImages: [],
+        builtIn: true,
+    },
+    {
+        id: 'builtin-western-comic',
+        name: 'Truyện tranh Mỹ',
+        positive: 'American comic book style, bold ink outlines, flat vibrant colors, halftone shading',
+        negative: 'photorealism, anime style, watercolor',
+        referenceImages: [],
+        builtIn: true,
+    },
+    {
+        id: 'builtin-watercolor',
+        name: 'Màu nước',
+        positive: 'watercolor illustration, soft washes, visible paper texture, gentle color bleeding, loose linework',
+        negative: 'hard outlines, glossy digital rendering, photorealism',
+        referenceImages: [],
+        builtIn: true,
+    },
+    {
+        id: 'builtin-chibi',
+        name: 'Chibi',
+        positive: 'chibi style, super-deformed proportions with oversized heads and small bodies, cute rounded shapes, bright pastel colors',
+        negative: 'realistic proportions, gritty detail, photorealism',
+        referenceImages: [],
+        builtIn: true,
+    },
+    {
+        id: 'builtin-noir',
+        name: 'Noir',
+        positive: 'film noir comic style, high-contrast black and white, deep shadows, dramatic lighting, heavy ink',
+        negative: 'bright colors, soft lighting, cute style',
+        referenceImages: [],
+        builtIn: true,
+    },
+];
+
+export const defaultArtStyleSettings: ArtStyleSettings = { selectedId: null, customPresets: [] };
+
+/** A new custom preset, optionally copied from an existing one so a built-in can be tweaked. */
+export const createStylePreset = (base?: StylePreset): StylePreset => ({
+    id: `style-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: base ? `${base.name} (tùy chỉnh)` : 'Phong cách mới',
+    positive: base?.positive ?? '',
+    negative: base?.negative ?? '',
+    referenceImages: base ? [...base.referenceImages] : [],
+});
+
+export const getStylePresets = (settings: ArtStyleSettings): StylePreset[] => [...BUILT_IN_STYLE_PRESETS, ...settings.customPresets];
+
+// A preset that has since been deleted reads as no style.
+export const getSelectedStyle = (settings: ArtStyleSettings): StylePreset | null =>
+    getStylePresets(settings).find(preset => preset.id === settings.selectedId) ?? null;
+
+const describeStyleWords = (style: StylePreset): string => [
+    style.positive.trim() && `Art style: ${style.positive.trim()}.`,
+    style.negative.trim() && `Avoid: ${style.negative.trim()}.`,
+].filter(Boolean).join(' ');
+
+/**
+ * What the `{{style}}` placeholder renders to. Style references are attached after `referenceOffset` other images,
+ * and the clause says they only show the style, so their content is not drawn into the result.
+ */
+export const describeArtStyle = (style: StylePreset | null, referenceOffset: number): string => {
+    if (!style) return '';
+    const count = style.referenceImages.length;
+    if (count === 0) return describeStyleWords(style);
+    const first = referenceOffset + 1;
+    const images = count === 1 ? `Reference image ${first} shows` : `Reference images ${first}-${referenceOffset + count} show`;
+    return `${describeStyleWords(style)} ${images} only the art style to match; do not draw anything from ${count === 1 ? 'it' : 'them'}.`.trim();
+};
+
+export const getStyleReferences = (style: StylePreset | null): string[] => style?.referenceImages ?? [];
+
+/** For calls that take a single image, such as edits: the style words only, since no style references can be attached. */
+export const withArtStyleText = (prompt: string, style: StylePreset | null): string => {
+    const words = style ? describeStyleWords(style) : '';
+    return words ? `${prompt} ${words}` : prompt;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { castFromStoryboardNames } from './characterRoster';
+import type { Character } from '../types';
+
+const character = (id: string, name: string): Character => ({ id, name, description: '', referenceImages: [] });
+
+const roster = [character('an', 'An'), character('mai-anh', 'Mai Anh'), character('ba-tu', 'Bà Tư')];
+
+describe('castFromStoryboardNames', () => {
+    it('casts the characters the storyboard names, in roster order', () => {
+        expect(castFromStoryboardNames(['bà tư', 'An'], roster)).toEqual(['an', 'ba-tu']);
+    });
+
+    it('matches whole words only', () => {
+        expect(castFromStoryboardNames(['Anh', 'Lan'], roster)).toEqual([]);
+        expect(castFromStoryboardNames(['cô An'], roster)).toEqual(['an']);
+        expect(castFromStoryboardNames(['chị Mai Anh'], roster)).toEqual(['mai-anh']);
+        expect(castFromStoryboardNames(['Mai'], roster)).toEqual([]);
+    });
+
+    it('casts nobody when no roster character is named', () => {
+        expect(castFromStoryboardNames([], roster)).toEqual([]);
+        expect(castFromStoryboardNames(['người đưa thư'], roster)).toEqual([]);
+    });
+
+    it('leaves the scene uncast when the roster is empty', () => {
+        expect(castFromStoryboardNames(['An'], [])).toBeUndefined();
+    });
+});
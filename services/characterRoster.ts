@@ -0,0 +1,39 @@
+import type { Character, Scene } from '../types';
+
+export const DEFAULT_CHARACTER_NAME = 'Nhân vật chính';
+
+export const createCharacter = (name: string): Character => ({
+    id: `character-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    description: '',
+    referenceImages: [],
+});
+
+// Projects from before the roster kept one flat list of reference images; it becomes a single character.
+export const migrateReferenceImages = (referenceImages: string[] | undefined): Character[] =>
+    referenceImages?.length ? [{ ...createCharacter(DEFAULT_CHARACTER_NAME), referenceImages }] : [];
+
+export const getSceneCast = (scene: Scene, characters: Character[]): Character[] =>
+    scene.castIds ? characters.filter(character => scene.castIds!.includes(character.id)) : characters;
+
+const nameWords = (name: string): string[] => name.normalize('NFC').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Whole words only, so "An" finds "cô An" but not "Anh" or "Lan".
+const containsWords = (words: string[], part: string[]): boolean =>
+    part.length > 0 && words.some((_, start) => part.every((word, offset) => words[start + offset] === word));
+
+/**
+ * Casts the roster characters whose full names appear in a storyboard name, e.g. "Mai" in "cô Mai". A scene
+ * that names none of them is cast with nobody, so it is drawn from its description alone. With an empty roster
+ * the scene is left uncast.
+ */
+export const castFromStoryboardNames = (names: string[], characters: Character[]): string[] | undefined => {
+    if (characters.length === 0) return undefined;
+    const storyboardNames = names.map(nameWords);
+    return characters
+        .filter(character => {
+            const characterName = nameWords(character.name);
+            return storyboardNames.some(name => containsWords(name, characterName));
+        })
+        .map(character => character.id);
+};
@@ -0,0 +1,200 @@
+import type { ComicBook, ComicImage } from '../types';
+import { PAGE_HEIGHT, PAGE_WIDTH, getFrameRects } from './comicPages';
+import { renderComicPage } from './pageRenderer';
+import { getJSZip } from './projectArchive';
+
+// Comic reader formats for the composed pages: CBZ (numbered images plus ComicInfo.xml) and fixed-layout EPUB 3.
+// Pages keep the composer's 2:3 sheet, rendered at a size that stays sharp on tablets.
+
+export interface ComicBookMetadata {
+    title: string;
+    author: string;
+    summary: string;
+}
+
+const EXPORT_PAGE_WIDTH = 1600;
+const EXPORT_PAGE_HEIGHT = Math.round((EXPORT_PAGE_WIDTH * PAGE_HEIGHT) / PAGE_WIDTH);
+const JPEG_QUALITY = 0.9;
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** Zero-padded so readers that sort by name keep the pages in order. */
+const pageFileName = (index: number, total: number, extension: string) =>
+    `page-${String(index + 1).padStart(Math.max(3, String(total).length), '0')}.${extension}`;
+
+/** Renders every page to base64 JPEG, one at a time so only one full-size canvas is alive. */
+const renderPages = async (
+    book: ComicBook,
+    imagesById: Map<string, ComicImage>,
+    onProgress?: (done: number, total: number) => void,
+): Promise<string[]> => {
+    const pages: string[] = [];
+    for (const [index, page] of book.pages.entries()) {
+        onProgress?.(index, book.pages.length);
+        const canvas = await renderComicPage(page, book.style, imagesById, { width: EXPORT_PAGE_WIDTH, height: EXPORT_PAGE_HEIGHT });
+        pages.push(canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1]);
+        canvas.width = 0;
+        canvas.height = 0;
+    }
+    onProgress?.(book.pages.length, book.pages.length);
+    return pages;
+};
+
+// The reader formats have no cover page, so no page is marked FrontCover; readers thumbnail the first page anyway.
+const buildComicInfo = (metadata: ComicBookMetadata, pageCount: number): string => `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <Title>${escapeXml(metadata.title)}</Title>
+  <Writer>${escapeXml(metadata.author)}</Writer>
+  <Summary>${escapeXml(metadata.summary)}</Summary>
+  <PageCount>${pageCount}</PageCount>
+  <LanguageISO>vi</LanguageISO>
+  <Pages>
+${Array.from({ length: pageCount }, (_, index) =>
+    `    <Page Image="${index}" ImageWidth="${EXPORT_PAGE_WIDTH}" ImageHeight="${EXPORT_PAGE_HEIGHT}" />`).join('\n')}
+  </Pages>
+</ComicInfo>
+`;
+
+export const exportComicCbz = async (
+    book: ComicBook,
+    imagesById: Map<string, ComicImage>,
+    metadata: ComicBookMetadata,
+    onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+    const JSZip = getJSZip();
+    const zip = new JSZip();
+    const pages = await renderPages(book, imagesById, onProgress);
+    pages.forEach((data, index) => zip.file(pageFileName(index, pages.length, 'jpg'), data, { base64: true }));
+    zip.file('ComicInfo.xml', buildComicInfo(metadata, pages.length));
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.comicbook+zip' });
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const buildPageXhtml = (title: string, imageFile: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+  <title>${escapeXml(title)}</title>
+  <meta name="viewport" content="width=${EXPORT_PAGE_WIDTH}, height=${EXPORT_PAGE_HEIGHT}"/>
+  <style>html, body { margin: 0; padding: 0; width: ${EXPORT_PAGE_WIDTH}px; height: ${EXPORT_PAGE_HEIGHT}px; } img { display: block; width: 100%; height: 100%; }</style>
+</head>
+<body>
+  <img src="images/${imageFile}" alt="${escapeXml(title)}"/>
+</body>
+</html>
+`;
+
+const buildNavXhtml = (title: string, pageFiles: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <ol>
+${pageFiles.map((file, index) => `      <li><a href="${file}">Trang ${index + 1}</a></li>`).join('\n')}
+    </ol>
+  </nav>
+  <nav epub:type="page-list" hidden="hidden">
+    <ol>
+${pageFiles.map((file, index) => `      <li><a href="${file}">${index + 1}</a></li>`).join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+
+/** Panel-by-panel reading order in the EPUB Region-Based Navigation format, one region per filled frame. */
+const buildPanelNavXhtml = (title: string, book: ComicBook, pageFiles: string[]) => {
+    const percent = (value: number, total: number) => +((value / total) * 100).toFixed(2);
+    const pages = book.pages.map((page, pageIndex) => {
+        const panels = getFrameRects(page.layoutId, book.style)
+            .map((frame, index) => ({ frame, index }))
+            .filter(({ index }) => page.panels[index]?.imageId)
+            .map(({ frame, index }) => {
+                const region = [percent(frame.x, PAGE_WIDTH), percent(frame.y, PAGE_HEIGHT), percent(frame.width, PAGE_WIDTH), percent(frame.height, PAGE_HEIGHT)].join(',');
+                return `          <li epub:type="panel"><a href="${pageFiles[pageIndex]}#xywh=percent:${region}">Khung ${index + 1}</a></li>`;
+            });
+        return `      <li epub:type="page"><a href="${pageFiles[pageIndex]}">Trang ${pageIndex + 1}</a>
+        <ol>
+${panels.join('\n')}
+        </ol>
+      </li>`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+  <nav epub:type="region-based" prefix="ahl: http://idpf.org/epub/vocab/ahl">
+    <ol>
+${pages.join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+};
+
+const buildContentOpf = (metadata: ComicBookMetadata, pageFiles: string[], imageFiles: string[], withPanelNav: boolean) => {
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(metadata.title)}</dc:title>
+    ${metadata.author ? `<dc:creator>${escapeXml(metadata.author)}</dc:creator>` : ''}
+    ${metadata.summary ? `<dc:description>${escapeXml(metadata.summary)}</dc:description>` : ''}
+    <dc:language>vi</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">portrait</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+${withPanelNav ? '    <item id="panels" href="panels.xhtml" media-type="application/xhtml+xml" properties="data-nav"/>\n' : ''}${imageFiles.map((file, index) =>
+    `    <item id="image-${index + 1}" href="images/${file}" media-type="image/jpeg"${index === 0 ? ' properties="cover-image"' : ''}/>`).join('\n')}
+${pageFiles.map((file, index) => `    <item id="page-${index + 1}" href="${file}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>
+${pageFiles.map((_, index) => `    <itemref idref="page-${index + 1}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+};
+
+/** A fixed-layout EPUB 3 with one page per screen and, optionally, region-based panel navigation. */
+export const exportComicEpub = async (
+    book: ComicBook,
+    imagesById: Map<string, ComicImage>,
+    metadata: ComicBookMetadata,
+    withPanelNav: boolean,
+    onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+    const JSZip = getJSZip();
+    const zip = new JSZip();
+    const pages = await renderPages(book, imagesById, onProgress);
+    const imageFiles = pages.map((_, index) => pageFileName(index, pages.length, 'jpg'));
+    const pageFiles = pages.map((_, index) => pageFileName(index, pages.length, 'xhtml'));
+    const title = metadata.title || 'Truyện tranh';
+
+    // The mimetype entry must come first and stay uncompressed for readers to recognise the file.
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+    zip.file('OEBPS/content.opf', buildContentOpf({ ...metadata, title }, pageFiles, imageFiles, withPanelNav));
+    zip.file('OEBPS/nav.xhtml', buildNavXhtml(title, pageFiles));
+    if (withPanelNav) zip.file('OEBPS/panels.xhtml', buildPanelNavXhtml(title, book, pageFiles));
+    pages.forEach((data, index) => {
+        zip.file(`OEBPS/images/${imageFiles[index]}`, data, { base64: true });
+        zip.file(`OEBPS/${pageFiles[index]}`, buildPageXhtml(`${title} - Trang ${index + 1}`, imageFiles[index]));
+    });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,166 @@
+import type { ComicBook, ComicImage, ComicPage, ComicPanel, PageLayoutId, PageStyle, PanelCrop, Scene } from '../types';
+
+// Comic pages built from scene images. Pages are measured in page units, PAGE_WIDTH across; the editor shows a
+// 2:3 sheet and exports stretch the height to their paper. Layouts place frames as fractions, so both work.
+
+export const PAGE_WIDTH = 1000;
+export const PAGE_HEIGHT = 1500;
+
+export interface FrameRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageLayout {
+    id: PageLayoutId;
+    label: string;
+    frames: FrameRect[]; // fractions of the area inside the margin, in reading order
+}
+
+export const PAGE_LAYOUTS: PageLayout[] = [
+    {
+        id: 'grid-2x2',
+        label: 'Lưới 2x2',
+        frames: [
+            { x: 0, y: 0, width: 0.5, height: 0.5 },
+            { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+            { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+            { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+        ],
+    },
+    {
+        id: 'three-tier',
+        label: 'Ba tầng',
+        frames: [
+            { x: 0, y: 0, width: 1, height: 1 / 3 },
+            { x: 0, y: 1 / 3, width: 1, height: 1 / 3 },
+            { x: 0, y: 2 / 3, width: 1, height: 1 / 3 },
+        ],
+    },
+    {
+        id: 'splash',
+        label: 'Trang đơn',
+        frames: [{ x: 0, y: 0, width: 1, height: 1 }],
+    },
+    {
+        id: 'asymmetric',
+        label: 'Bất đối xứng',
+        frames: [
+            { x: 0, y: 0, width: 1, height: 0.4 },
+            { x: 0, y: 0.4, width: 0.4, height: 0.3 },
+            { x: 0.4, y: 0.4, width: 0.6, height: 0.3 },
+            { x: 0, y: 0.7, width: 0.6, height: 0.3 },
+            { x: 0.6, y: 0.7, width: 0.4, height: 0.3 },
+        ],
+    },
+];
+
+export const getPageLayout = (id: PageLayoutId): PageLayout => PAGE_LAYOUTS.find(layout => layout.id === id) ?? PAGE_LAYOUTS[0];
+
+export const defaultPageStyle: PageStyle = {
+    margin: 40,
+    gutter: 20,
+    borderWidth: 4,
+    borderColor: '#000000',
+    backgroundColor: '#ffffff',
+};
+
+export const defaultComicBook: ComicBook = { pages: [], style: defaultPageStyle };
+
+export const defaultPanelCrop: PanelCrop = { zoom: 1, focusX: 0.5, focusY: 0.5 };
+
+const createPageId = () => `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createPanel = (imageId: string | null = null): ComicPanel => ({ imageId, crop: defaultPanelCrop });
+
+export const createPage = (layoutId: PageLayoutId, imageIds: string[] = []): ComicPage => ({
+    id: createPageId(),
+    layoutId,
+    panels: getPageLayout(layoutId).frames.map((_, index) => createPanel(imageIds[index] ?? null)),
+});
+
+/** Panels keep their order; a layout with fewer frames drops the panels at the end. */
+export const changePageLayout = (page: ComicPage, layoutId: PageLayoutId): ComicPage => ({
+    ...page,
+    layoutId,
+    panels: getPageLayout(layoutId).frames.map((_, index) => page.panels[index] ?? createPanel()),
+});
+
+/** Lays the images out in order, filling as many pages of one layout as they need. */
+export const autoLayoutPages = (imageIds: string[], layoutId: PageLayoutId): ComicPage[] => {
+    const perPage = getPageLayout(layoutId).frames.length;
+    const pages: ComicPage[] = [];
+    for (let start = 0; start < imageIds.length; start += perPage) {
+        pages.push(createPage(layoutId, imageIds.slice(start, start + perPage)));
+    }
+    return pages;
+};
+
+export interface PanelRef {
+    pageId: string;
+    index: number;
+}
+
+const updatePanel = (pages: ComicPage[], ref: PanelRef, update: (panel: ComicPanel) => ComicPanel): ComicPage[] =>
+    pages.map(page => page.id !== ref.pageId ? page : {
+        ...page,
+        panels: page.panels.map((panel, index) => index === ref.index ? update(panel) : panel),
+    });
+
+const getPanel = (pages: ComicPage[], ref: PanelRef): ComicPanel | undefined =>
+    pages.find(page => page.id === ref.pageId)?.panels[ref.index];
+
+/** Swaps two panels, on the same page or across pages. Each image keeps its crop. */
+export const swapPanels = (pages: ComicPage[], a: PanelRef, b: PanelRef): ComicPage[] => {
+    const panelA = getPanel(pages, a);
+    const panelB = getPanel(pages, b);
+    if (!panelA || !panelB) return pages;
+    return updatePanel(updatePanel(pages, a, () => panelB), b, () => panelA);
+};
+
+export const setPanelImage = (pages: ComicPage[], ref: PanelRef, imageId: string | null): ComicPage[] =>
+    updatePanel(pages, ref, () => createPanel(imageId));
+
+export const setPanelCrop = (pages: ComicPage[], ref: PanelRef, crop: PanelCrop): ComicPage[] =>
+    updatePanel(pages, ref, panel => ({ ...panel, crop }));
+
+/**
+ * The layout's frames in page units, after the margin and gutters. Print sizes are not 2:3, so exports pass
+ * the height of their paper in page units and the frames stretch to it.
+ */
+export const getFrameRects = (layoutId: PageLayoutId, style: PageStyle, pageHeight = PAGE_HEIGHT): FrameRect[] => {
+    // The area is widened by half a gutter on every side so that insetting each frame by half a gutter
+    // leaves exactly one gutter between frames and exactly the margin at the page edge.
+    const half = style.gutter / 2;
+    const areaX = style.margin - half;
+    const areaY = style.margin - half;
+    const areaWidth = PAGE_WIDTH - 2 * style.margin + style.gutter;
+    const areaHeight = pageHeight - 2 * style.margin + style.gutter;
+    return getPageLayout(layoutId).frames.map(frame => ({
+        x: areaX + frame.x * areaWidth + half,
+        y: areaY + frame.y * areaHeight + half,
+        width: Math.max(1, frame.width * areaWidth - style.gutter),
+        height: Math.max(1, frame.height * areaHeight - style.gutter),
+    }));
+};
+
+/** The part of the image, in image pixels, that fills a frame of the given size: cover-fit, then zoomed around the focus. */
+export const getPanelSourceRect = (imageWidth: number, imageHeight: number, frameWidth: number, frameHeight: number, crop: PanelCrop): FrameRect => {
+    const frameAspect = frameWidth / frameHeight;
+    const zoom = Math.max(1, crop.zoom);
+    const width = Math.min(imageWidth, imageHeight * frameAspect) / zoom;
+    const height = width / frameAspect;
+    const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+    return {
+        x: clamp(crop.focusX * imageWidth - width / 2, imageWidth - width),
+        y: clamp(crop.focusY * imageHeight - height / 2, imageHeight - height),
+        width,
+        height,
+    };
+};
+
+/** The images a reader would expect on the pages: every selected, finished image, in scene order. */
+export const getSelectedSceneImages = (scenes: Scene[]): ComicImage[] =>
+    scenes.flatMap(scene => scene.images.filter(img => img.isSelected && img.status === 'done'));
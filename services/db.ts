@@ -0,0 +1,69 @@
+const DB_NAME = 'aiComicMaker';
+const DB_VERSION = 4;
+
+export const PROJECTS_STORE = 'projects';
+// Name, date and thumbnail of each project, so the library can list them without loading every project.
+export const PROJECT_SUMMARIES_STORE = 'projectSummaries';
+export const USAGE_STORE = 'usage';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+// Orders cache entries by last use and carries their size, so eviction can walk them without loading the cached images.
+export const RESPONSE_CACHE_LRU_INDEX = 'byLastUsed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(PROJECT_SUMMARIES_STORE)) {
+                    db.createObjectStore(PROJECT_SUMMARIES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(USAGE_STORE)) {
+                    db.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+                if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+                    const cacheStore = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+                    cacheStore.createIndex(RESPONSE_CACHE_LRU_INDEX, ['lastUsedAt', 'size']);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // A newer version opened in another tab can only upgrade once every older connection closes.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            // A tab still running an older version holds the database open; without this the open would wait forever.
+            request.onblocked = () => reject(new Error('Ứng dụng đang mở ở một tab khác với phiên bản cũ. Vui lòng đóng các tab đó rồi tải lại trang.'));
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const runRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getStore = async (storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDatabase();
+    return db.transaction(storeName, mode).objectStore(storeName);
+};
+
+/** One transaction over several stores, for writes that must land together. */
+export const getTransaction = async (storeNames: string[], mode: IDBTransactionMode): Promise<IDBTransaction> => {
+    const db = await openDatabase();
+    return db.transaction(storeNames, mode);
+};
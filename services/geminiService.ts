@@ -1,6 +1,16 @@
 // NOTE: The @google/genai package is not directly available in this environment.
 // The code is written assuming it will be run in an environment where this package is installed.
 import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { GenerateContentParameters, GenerateContentResponse, GenerateImagesParameters, GenerateImagesResponse } from "@google/genai";
+import { withKeyRotation, trackedCall } from './apiKeyPool';
+import { withResponseCache } from './responseCache';
+import { parseStoryboard, SHOT_TYPES } from './storyboard';
+import type { AiProvider, RequestOptions } from './aiProvider';
+import type { StoryboardScene } from '../types';
+
+export const IMAGE_GENERATION_MODEL = 'imagen-4.0-generate-001';
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+export const TEXT_MODEL = 'gemini-2.5-flash';
 
 const getAiClient = (apiKey: string): GoogleGenAI => {
     if (!apiKey) {
@@ -9,23 +19,148 @@ const getAiClient = (apiKey: string): GoogleGenAI => {
     return new GoogleGenAI({ apiKey });
 };
 
-export const generateImageFromText = async (apiKey: string, prompt: string, aspectRatio: string = '1:1'): Promise<string> => {
-    try {
-        const ai = getAiClient(apiKey);
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
-            },
-        });
+// The request builders below take the client as a parameter so the offline mock can drive the same
+// response handling without key rotation, usage tracking or caching.
+
+/** The part of the GoogleGenAI client the request builders call, and all that the offline mock implements. */
+export interface GeminiClient {
+    models: {
+        generateContent: (params: GenerateContentParameters) => Promise<Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'text'>>;
+        generateImages: (params: GenerateImagesParameters) => Promise<Pick<GenerateImagesResponse, 'generatedImages'>>;
+    };
+}
+
+const requestImageFromText = async (ai: GeminiClient, prompt: string, aspectRatio: string, signal?: AbortSignal): Promise<string> => {
+    const response = await ai.models.generateImages({
+        model: IMAGE_GENERATION_MODEL,
+        prompt: prompt,
+        config: {
+            numberOfImages: 1,
+            outputMimeType: 'image/jpeg',
+            aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
+            abortSignal: signal,
+        },
+    });
+
+    const generatedImage = response.generatedImages?.[0];
+    if (generatedImage?.image?.imageBytes) {
+        return generatedImage.image.imageBytes;
+    }
+    if (generatedImage?.raiFilteredReason) {
+        throw new Error(`Ảnh đã bị bộ lọc an toàn chặn. Vui lòng thử lại với mô tả khác. Lý do: "${generatedImage.raiFilteredReason}"`);
+    }
+    throw new Error("Không thể tạo ảnh từ AI.");
+};
 
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            return response.generatedImages[0].image.imageBytes;
+const requestImageEdit = async (ai: GeminiClient, base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: IMAGE_EDIT_MODEL,
+        contents: {
+            parts: [
+                { inlineData: { data: base64Image, mimeType: mimeType } },
+                { text: prompt },
+            ],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
+        },
+    });
+
+    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    if (imagePart && imagePart.inlineData) {
+        return imagePart.inlineData.data;
+    }
+    throw new Error("Không thể chỉnh sửa ảnh bằng AI.");
+};
+
+const requestSceneImage = async (ai: GeminiClient, referenceImages: string[], prompt: string, signal?: AbortSignal): Promise<string> => {
+    const imageParts = referenceImages.map(base64Image => ({
+        inlineData: {
+            data: base64Image,
+            // Assume png/jpeg, a more robust solution might check mime type
+            mimeType: 'image/png' 
         }
-        throw new Error("Không thể tạo ảnh từ AI.");
+    }));
+
+    const textPart = { text: prompt };
+
+    const response = await ai.models.generateContent({
+        model: IMAGE_EDIT_MODEL,
+        contents: {
+            parts: [...imageParts, textPart],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
+        },
+    });
+
+    if (!response.candidates || response.candidates.length === 0) {
+        throw new Error("AI không trả về kết quả nào. Điều này có thể do bộ lọc an toàn đã chặn nội dung hoặc ảnh tham chiếu của bạn. Vui lòng thử lại với mô tả khác.");
+    }
+
+    const imagePart = response.candidates[0].content?.parts?.find(part => part.inlineData);
+    if (imagePart && imagePart.inlineData) {
+        return imagePart.inlineData.data;
+    }
+
+    const textResponse = response.candidates[0].content?.parts?.find(part => part.text)?.text;
+    if (textResponse) {
+         throw new Error(`AI đã trả về văn bản thay vì ảnh. Thử thay đổi mô tả của bạn. Phản hồi của AI: "${textResponse}"`);
+    }
+
+    throw new Error("Không thể tạo ảnh cho cảnh. Phản hồi từ AI không chứa dữ liệu hình ảnh như mong đợi.");
+};
+
+// Gemini takes no mask parameter, so the mask goes in as a second image and the prompt says how to read it.
+const requestImageRegionEdit = (ai: GeminiClient, base64Image: string, maskBase64: string, prompt: string, signal?: AbortSignal): Promise<string> =>
+    requestSceneImage(ai, [base64Image, maskBase64], `Edit reference image 1. Reference image 2 is a mask of the same size: change only the area that is white in the mask and keep everything in the black area exactly as it is. Do not draw the mask. Edit: ${prompt}`, signal);
+
+const requestSceneSplit = async (ai: GeminiClient, prompt: string, signal?: AbortSignal): Promise<StoryboardScene[]> => {
+    const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        description: { type: Type.STRING, description: "Mô tả trực quan của một cảnh để vẽ." },
+                        characters: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        dialogue: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    speaker: { type: Type.STRING },
+                                    text: { type: Type.STRING },
+                                },
+                                required: ['speaker', 'text'],
+                            },
+                        },
+                        narration: { type: Type.STRING, description: "Câu dẫn truyện dùng làm chú thích và lồng tiếng." },
+                        shotType: { type: Type.STRING, enum: SHOT_TYPES },
+                        mood: { type: Type.STRING },
+                    },
+                    required: ['description', 'characters', 'dialogue', 'narration', 'shotType', 'mood'],
+                    propertyOrdering: ['description', 'characters', 'dialogue', 'narration', 'shotType', 'mood'],
+                }
+            },
+            abortSignal: signal,
+        }
+    });
+
+    // `text` is undefined when the candidate was blocked and has no parts.
+    return parseStoryboard((response.text ?? '').trim());
+};
+
+export const generateImageFromText = async (apiKey: string, prompt: string, aspectRatio: string = '1:1', options: RequestOptions = {}): Promise<string> => {
+    try {
+        return await withResponseCache({ model: IMAGE_GENERATION_MODEL, prompt, aspectRatio }, options.forceNew, () =>
+            withKeyRotation(apiKey, 'generateImageFromText', IMAGE_GENERATION_MODEL, key => requestImageFromText(getAiClient(key), prompt, aspectRatio, options.signal)));
     } catch (error) {
         console.error("Lỗi khi tạo ảnh:", error);
         throw error;
@@ -33,120 +168,75 @@ export const generateImageFromText = async (apiKey: string, prompt: string, aspe
 };
 
 
-export const editImageWithPrompt = async (apiKey: string, base64Image: string, mimeType: string, prompt: string): Promise<string> => {
+export const editImageWithPrompt = async (apiKey: string, base64Image: string, mimeType: string, prompt: string, options: RequestOptions = {}): Promise<string> => {
     try {
-        const ai = getAiClient(apiKey);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { inlineData: { data: base64Image, mimeType: mimeType } },
-                    { text: prompt },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-
-        const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-        if (imagePart && imagePart.inlineData) {
-            return imagePart.inlineData.data;
-        }
-        throw new Error("Không thể chỉnh sửa ảnh bằng AI.");
-
+        return await withResponseCache({ model: IMAGE_EDIT_MODEL, prompt, references: [base64Image], mimeType }, options.forceNew, () =>
+            withKeyRotation(apiKey, 'editImageWithPrompt', IMAGE_EDIT_MODEL, key => requestImageEdit(getAiClient(key), base64Image, mimeType, prompt, options.signal)));
     } catch (error) {
         console.error("Lỗi khi chỉnh sửa ảnh:", error);
         throw error;
     }
 };
 
-export const generateSceneImage = async (apiKey: string, referenceImages: string[], prompt: string): Promise<string> => {
+export const editImageRegion = async (apiKey: string, base64Image: string, maskBase64: string, prompt: string, options: RequestOptions = {}): Promise<string> => {
     try {
-        const ai = getAiClient(apiKey);
-        
-        const imageParts = referenceImages.map(base64Image => ({
-            inlineData: {
-                data: base64Image,
-                // Assume png/jpeg, a more robust solution might check mime type
-                mimeType: 'image/png' 
-            }
-        }));
-        
-        const textPart = { text: prompt };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [...imageParts, textPart],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-
-        if (!response.candidates || response.candidates.length === 0) {
-            throw new Error("AI không trả về kết quả nào. Điều này có thể do bộ lọc an toàn đã chặn nội dung hoặc ảnh tham chiếu của bạn. Vui lòng thử lại với mô tả khác.");
-        }
-
-        const imagePart = response.candidates[0].content?.parts?.find(part => part.inlineData);
-        if (imagePart && imagePart.inlineData) {
-            return imagePart.inlineData.data;
-        }
-
-        const textResponse = response.candidates[0].content?.parts?.find(part => part.text)?.text;
-        if (textResponse) {
-             throw new Error(`AI đã trả về văn bản thay vì ảnh. Thử thay đổi mô tả của bạn. Phản hồi của AI: "${textResponse}"`);
-        }
-        
-        throw new Error("Không thể tạo ảnh cho cảnh. Phản hồi từ AI không chứa dữ liệu hình ảnh như mong đợi.");
+        return await withResponseCache({ model: IMAGE_EDIT_MODEL, prompt, references: [base64Image, maskBase64] }, options.forceNew, () =>
+            withKeyRotation(apiKey, 'editImageRegion', IMAGE_EDIT_MODEL, key => requestImageRegionEdit(getAiClient(key), base64Image, maskBase64, prompt, options.signal)));
+    } catch (error) {
+        console.error("Lỗi khi chỉnh sửa vùng ảnh:", error);
+        throw error;
+    }
+};
 
+export const generateSceneImage = async (apiKey: string, referenceImages: string[], prompt: string, options: RequestOptions = {}): Promise<string> => {
+    try {
+        return await withResponseCache({ model: IMAGE_EDIT_MODEL, prompt, references: referenceImages }, options.forceNew, () =>
+            withKeyRotation(apiKey, 'generateSceneImage', IMAGE_EDIT_MODEL, key => requestSceneImage(getAiClient(key), referenceImages, prompt, options.signal)));
     } catch (error) {
         console.error("Lỗi khi tạo ảnh cảnh:", error);
         throw error;
     }
 };
 
-export const splitStoryIntoScenes = async (apiKey: string, story: string, numScenes?: number): Promise<string[]> => {
+export const splitStoryIntoScenes = async (apiKey: string, prompt: string, options: RequestOptions = {}): Promise<StoryboardScene[]> => {
     try {
-        const ai = getAiClient(apiKey);
-        const prompt = `Nhiệm vụ của bạn là hoạt động như một công cụ phân cảnh cho họa sĩ truyện tranh. Đọc câu chuyện được cung cấp và chia nó thành ${numScenes ? numScenes : 'vài'} cảnh chính. Đối với MỖI cảnh, hãy tạo một mô tả **chỉ để vẽ**, không phải là văn bản tường thuật. Mô tả này phải ngắn gọn, tập trung vào các yếu tố HÌNH ẢNH: hành động, biểu cảm của nhân vật, và bối cảnh xung quanh. TUYỆT ĐỐI KHÔNG sao chép hoặc diễn giải lại các câu từ câu chuyện gốc. Chỉ trả về một mảng JSON hợp lệ chứa các chuỗi mô tả này. \n\nVí dụ đầu ra đúng: ["Cô bé quàng khăn đỏ đang đi bộ trên con đường mòn trong một khu rừng rậm rạp.", "Một con sói gian ác đang nấp sau một cái cây, nhìn cô bé.", "Cô bé gõ cửa một ngôi nhà nhỏ bằng gỗ."]\n\nCâu chuyện: "${story}"`;
-        
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.STRING,
-                        description: "Mô tả trực quan của một cảnh để vẽ."
-                    }
-                }
-            }
-        });
-        
-        const jsonString = response.text.trim();
-
-        if (!jsonString) {
-            throw new Error("AI đã trả về một phản hồi trống. Điều này có thể do nội dung truyện của bạn đã bị bộ lọc an toàn chặn. Vui lòng thử điều chỉnh lại câu chuyện.");
-        }
-
-        try {
-            const scenes = JSON.parse(jsonString);
-            if (Array.isArray(scenes) && scenes.every(s => typeof s === 'string')) {
-                return scenes;
-            }
-        } catch (jsonError) {
-             console.error("Lỗi khi phân tích JSON từ AI:", jsonString);
-             throw new Error("AI đã không trả về định dạng JSON hợp lệ như mong đợi. Vui lòng thử lại.");
-        }
-        
-        throw new Error("Phản hồi từ AI không đúng định dạng mảng chuỗi mong muốn.");
-
+        return await withResponseCache({ model: TEXT_MODEL, prompt }, options.forceNew, () =>
+            withKeyRotation(apiKey, 'splitStoryIntoScenes', TEXT_MODEL, key => requestSceneSplit(getAiClient(key), prompt, options.signal)));
     } catch (error) {
         console.error("Lỗi khi phân chia cảnh:", error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/** Makes the cheapest call that proves `apiKey` can reach `model`; throws the API error otherwise. */
+export const probeModel = async (apiKey: string, model: string): Promise<void> => {
+    await trackedCall(apiKey, 'probeModel', model, async () => {
+        const ai = getAiClient(apiKey);
+        if (model === IMAGE_GENERATION_MODEL) {
+            // Imagen cannot be tried for free, so this only confirms the key can see the model; keyHealth reports
+            // it as unverified. Billing restrictions surface on the first real generation and are recorded then.
+            await ai.models.get({ model });
+            return;
+        }
+        await ai.models.generateContent({ model, contents: 'ping', config: { maxOutputTokens: 1 } });
+    });
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => ({
+    id: 'gemini',
+    generateImageFromText: (prompt, aspectRatio, options) => generateImageFromText(apiKey, prompt, aspectRatio, options),
+    editImageWithPrompt: (base64Image, mimeType, prompt, options) => editImageWithPrompt(apiKey, base64Image, mimeType, prompt, options),
+    editImageRegion: (base64Image, maskBase64, prompt, options) => editImageRegion(apiKey, base64Image, maskBase64, prompt, options),
+    generateSceneImage: (referenceImages, prompt, options) => generateSceneImage(apiKey, referenceImages, prompt, options),
+    splitStoryIntoScenes: (prompt, options) => splitStoryIntoScenes(apiKey, prompt, options),
+});
+
+/** A provider bound to one client with no key rotation, usage tracking or response cache, used by the offline mock. */
+export const createGeminiClientProvider = (ai: GeminiClient, id: AiProvider['id']): AiProvider => ({
+    id,
+    generateImageFromText: (prompt, aspectRatio = '1:1', options) => requestImageFromText(ai, prompt, aspectRatio, options?.signal),
+    editImageWithPrompt: (base64Image, mimeType, prompt, options) => requestImageEdit(ai, base64Image, mimeType, prompt, options?.signal),
+    editImageRegion: (base64Image, maskBase64, prompt, options) => requestImageRegionEdit(ai, base64Image, maskBase64, prompt, options?.signal),
+    generateSceneImage: (referenceImages, prompt, options) => requestSceneImage(ai, referenceImages, prompt, options?.signal),
+    splitStoryIntoScenes: (prompt, options) => requestSceneSplit(ai, prompt, options?.signal),
+});
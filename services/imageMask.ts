@@ -0,0 +1,99 @@
+import type { AiProvider, RequestOptions } from './aiProvider';
+
+// Masks for region edits: a PNG the size of the image, white where the edit may change pixels and black elsewhere.
+// Providers disagree on mask formats and none of them guarantee the rest of the image survives, so the result
+// is always composited back onto the original here.
+
+// Softens the seam between the edited region and the untouched pixels around it.
+const FEATHER_PX = 2;
+
+const loadImage = (base64: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = `data:image/png;base64,${base64}`;
+    });
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return [canvas, ctx];
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1];
+
+/** The mask's brightness moved into the alpha channel, scaled to `width` x `height`; `invert` makes the painted region transparent. */
+const maskToAlpha = (mask: HTMLImageElement, width: number, height: number, invert = false): HTMLCanvasElement => {
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.drawImage(mask, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const painted = data[i] > 127;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+        data[i + 3] = painted !== invert ? 255 : 0;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+/** Turns a canvas painted in any opaque color over transparency into a black-and-white mask. */
+export const exportMask = (paintCanvas: HTMLCanvasElement): string => {
+    const [canvas, ctx] = createCanvas(paintCanvas.width, paintCanvas.height);
+    ctx.drawImage(paintCanvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvasToBase64(canvas);
+};
+
+/** True when any pixel of the canvas has been painted. */
+export const hasPaintedPixels = (paintCanvas: HTMLCanvasElement): boolean => {
+    const ctx = paintCanvas.getContext('2d');
+    if (!ctx) return false;
+    const data = ctx.getImageData(0, 0, paintCanvas.width, paintCanvas.height).data;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return true;
+    }
+    return false;
+};
+
+/** The OpenAI images API reads the mask's alpha channel instead: transparent pixels are the ones it may edit. */
+export const toTransparentEditMask = async (maskBase64: string): Promise<string> => {
+    const mask = await loadImage(maskBase64);
+    return canvasToBase64(maskToAlpha(mask, mask.naturalWidth, mask.naturalHeight, true));
+};
+
+/**
+ * Keeps the original everywhere outside the mask and takes the edited image inside it. The edited image is
+ * stretched to the original's size first, since some models return a different resolution.
+ */
+export const compositeMaskedEdit = async (originalBase64: string, editedBase64: string, maskBase64: string): Promise<string> => {
+    const [original, edited, mask] = await Promise.all([loadImage(originalBase64), loadImage(editedBase64), loadImage(maskBase64)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    const [region, regionCtx] = createCanvas(width, height);
+    regionCtx.drawImage(edited, 0, 0, width, height);
+    regionCtx.globalCompositeOperation = 'destination-in';
+    regionCtx.filter = `blur(${FEATHER_PX}px)`;
+    regionCtx.drawImage(maskToAlpha(mask, width, height), 0, 0);
+
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(region, 0, 0);
+    return canvasToBase64(canvas);
+};
+
+/** Runs a region edit on `provider` and returns the composited result, ready to store as the image's next revision. */
+export const editMaskedRegion = async (provider: AiProvider, base64Image: string, maskBase64: string, prompt: string, options?: RequestOptions): Promise<string> =>
+    compositeMaskedEdit(base64Image, await provider.editImageRegion(base64Image, maskBase64, prompt, options), maskBase64);
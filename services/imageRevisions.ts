@@ -0,0 +1,27 @@
+import type { ComicImage, ImageRevision } from '../types';
+
+const createRevisionId = () => `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getImageRevisions = (image: ComicImage): ImageRevision[] =>
+    image.revisions ?? [{ id: `${image.id}-original`, url: image.url, prompt: null, createdAt: 0 }];
+
+export const withEditedRevision = (image: ComicImage, newUrl: string, prompt: string): ComicImage => ({
+    ...image,
+    url: newUrl,
+    revisions: [...getImageRevisions(image), { id: createRevisionId(), url: newUrl, prompt, createdAt: Date.now() }],
+});
+
+export const withRestoredRevision = (image: ComicImage, revision: ImageRevision): ComicImage => ({
+    ...image,
+    url: revision.url,
+});
+
+// The fork starts its own chain from the chosen revision, keeping the prompt that produced it.
+export const forkRevision = (image: ComicImage, revision: ImageRevision): ComicImage => ({
+    id: `img-${Date.now()}-${Math.random()}`,
+    url: revision.url,
+    isSelected: false,
+    status: 'done',
+    duration: image.duration,
+    revisions: [{ ...revision, id: createRevisionId() }],
+});
@@ -0,0 +1,222 @@
+import { isTransientError, parseGeminiError } from './utils';
+
+export const JOB_QUEUE_UPDATED_EVENT = 'jobQueueUpdated';
+
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'failed' | 'done' | 'cancelled';
+
+/** What the queue panel sees of a job. */
+export interface JobInfo {
+    id: number;
+    label: string;
+    group?: string;
+    status: JobStatus;
+    attempts: number;
+    error?: string;
+    nextRetryAt?: number;
+    // Jobs started through runJob hand their result to a promise that has already settled, so they cannot be re-run.
+    retryable: boolean;
+}
+
+export interface JobOptions<T> {
+    label: string;
+    group?: string; // lets a step cancel all of its own jobs at once
+    run: (signal: AbortSignal) => Promise<T>;
+    onQueued?: () => void; // also called when a failed job is queued again
+    onSuccess?: (result: T) => void | Promise<void>;
+    onFailure?: (error: unknown, cancelled: boolean) => void;
+}
+
+interface Job extends JobInfo {
+    options: JobOptions<unknown>; // see enqueueJob
+    controller: AbortController;
+    retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+const CONCURRENCY_STORAGE_KEY = 'jobQueueConcurrency';
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_FINISHED_JOBS = 50;
+
+let jobs: Job[] = [];
+let nextJobId = 1;
+
+const loadConcurrency = (): number => {
+    const stored = parseInt(localStorage.getItem(CONCURRENCY_STORAGE_KEY) ?? '', 10);
+    return stored >= 1 && stored <= MAX_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+};
+
+let concurrency = loadConcurrency();
+
+const isFinished = (job: Job) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+
+const notify = () => {
+    window.dispatchEvent(new CustomEvent(JOB_QUEUE_UPDATED_EVENT));
+};
+
+// Exponential backoff with full jitter, so parallel jobs hitting the same rate limit don't retry in lockstep.
+const getBackoffMs = (attempt: number) =>
+    Math.round(Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1)));
+
+const pruneFinished = () => {
+    const finished = jobs.filter(isFinished);
+    if (finished.length <= MAX_FINISHED_JOBS) return;
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+    jobs = jobs.filter(job => !dropped.has(job));
+};
+
+// Not every backend honours the signal, so the queue stops waiting as soon as it fires either way.
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Job cancelled', 'AbortError'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+// Callbacks belong to the step that queued the job; one that throws must not stall the queue.
+const runCallback = (job: Job, callback: () => void) => {
+    try {
+        callback();
+    } catch (error) {
+        console.error(`Callback of job "${job.options.label}" failed:`, error);
+    }
+};
+
+const finish = (job: Job, status: 'done' | 'failed' | 'cancelled', error?: unknown) => {
+    job.status = status;
+    job.nextRetryAt = undefined;
+    if (status === 'failed') {
+        job.error = parseGeminiError(error);
+    }
+    if (status !== 'done') {
+        runCallback(job, () => job.options.onFailure?.(error, status === 'cancelled'));
+    }
+    pruneFinished();
+};
+
+const execute = async (job: Job) => {
+    job.status = 'running';
+    job.attempts++;
+    notify();
+
+    const { signal } = job.controller;
+    try {
+        const result = await raceAbort(job.options.run(signal), signal);
+        // The success handler can fail too (e.g. cropping), which counts as a failed job.
+        await job.options.onSuccess?.(result);
+        finish(job, 'done');
+    } catch (error) {
+        if (signal.aborted) {
+            finish(job, 'cancelled', error);
+        } else if (isTransientError(error) && job.attempts < MAX_ATTEMPTS) {
+            const delayMs = getBackoffMs(job.attempts);
+            job.status = 'retrying';
+            job.error = parseGeminiError(error);
+            job.nextRetryAt = Date.now() + delayMs;
+            job.retryTimer = setTimeout(() => {
+                job.retryTimer = undefined;
+                job.status = 'pending';
+                job.nextRetryAt = undefined;
+                pump();
+            }, delayMs);
+        } else {
+            console.error(`Job "${job.options.label}" failed:`, error);
+            finish(job, 'failed', error);
+        }
+    } finally {
+        pump();
+    }
+};
+
+function pump() {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+        if (running >= concurrency) break;
+        if (job.status === 'pending') {
+            running++;
+            execute(job);
+        }
+    }
+    notify();
+}
+
+/** Queues an AI call. Results and errors are delivered through the callbacks; transient failures are retried first. */
+export const enqueueJob = <T>(options: JobOptions<T>, retryable = true): number => {
+    const { onSuccess } = options;
+    const job: Job = {
+        id: nextJobId++,
+        label: options.label,
+        group: options.group,
+        status: 'pending',
+        attempts: 0,
+        retryable,
+        // Jobs of every result type share one list. A job's result only ever comes from its own `run`,
+        // so handing it back to its own `onSuccess` as T is safe.
+        options: { ...options, onSuccess: onSuccess && (result => onSuccess(result as T)) },
+        controller: new AbortController(),
+    };
+    jobs.push(job);
+    runCallback(job, () => options.onQueued?.());
+    pump();
+    return job.id;
+};
+
+/** Queues an AI call and waits for it. Rejects with an AbortError if the job is cancelled. */
+export const runJob = <T>(options: Omit<JobOptions<T>, 'onQueued' | 'onSuccess' | 'onFailure'>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        enqueueJob<T>({ ...options, onSuccess: resolve, onFailure: reject }, false);
+    });
+
+export const cancelJob = (id: number) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || isFinished(job)) return;
+    if (job.status === 'running') {
+        // execute() notices the abort and finishes the job.
+        job.controller.abort();
+        return;
+    }
+    clearTimeout(job.retryTimer);
+    job.retryTimer = undefined;
+    finish(job, 'cancelled', new DOMException('Job cancelled', 'AbortError'));
+    notify();
+};
+
+/** Cancels every unfinished job, or only those in `group`. */
+export const cancelJobs = (group?: string) => {
+    jobs.filter(job => !isFinished(job) && (group === undefined || job.group === group)).forEach(job => cancelJob(job.id));
+};
+
+export const cancelAllJobs = () => cancelJobs();
+
+export const retryFailedJobs = () => {
+    jobs.filter(job => job.status === 'failed' && job.retryable).forEach(job => {
+        job.status = 'pending';
+        job.attempts = 0;
+        job.error = undefined;
+        job.controller = new AbortController();
+        runCallback(job, () => job.options.onQueued?.());
+    });
+    pump();
+};
+
+export const clearFinishedJobs = () => {
+    jobs = jobs.filter(job => !isFinished(job));
+    notify();
+};
+
+export const getJobs = (): JobInfo[] =>
+    jobs.map(({ id, label, group, status, attempts, error, nextRetryAt, retryable }) => ({ id, label, group, status, attempts, error, nextRetryAt, retryable }));
+
+export const getConcurrency = () => concurrency;
+
+export const setConcurrency = (value: number) => {
+    concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+    try {
+        localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+    } catch (error) {
+        console.error("Failed to save job queue concurrency:", error);
+    }
+    pump();
+};
@@ -0,0 +1,52 @@
+import type { ModelCapability } from '../types';
+import { getSavedApiKeys } from './keyVault';
+import { probeModel, IMAGE_GENERATION_MODEL, IMAGE_EDIT_MODEL, TEXT_MODEL } from './geminiService';
+import { markApiKeyAsInvalid, clearApiKeyStatus, setApiKeyCapabilities, isQuotaError, isInvalidKeyError, isModelUnavailableError } from './utils';
+
+export const PROBED_MODELS = [IMAGE_GENERATION_MODEL, IMAGE_EDIT_MODEL, TEXT_MODEL];
+
+export const modelLabels: { [model: string]: string } = {
+    [IMAGE_GENERATION_MODEL]: 'Imagen 4',
+    [IMAGE_EDIT_MODEL]: 'Flash Image',
+    [TEXT_MODEL]: 'Flash',
+};
+
+// Models whose probe cannot tell a key that may use them from one that can only see them.
+const UNVERIFIABLE_MODELS = [IMAGE_GENERATION_MODEL];
+
+const classifyProbe = (error: unknown): ModelCapability => {
+    // A rate limit says nothing about access, and an outage should not be remembered as a missing capability.
+    if (isQuotaError(error)) return 'unknown';
+    if (isModelUnavailableError(error) || isInvalidKeyError(error)) return 'unavailable';
+    return 'unknown';
+};
+
+/**
+ * Probes every model the app uses with `keyValue` and stores the result on the saved key.
+ * A key that no model accepts because of an authentication error is also marked invalid.
+ */
+export const checkApiKeyHealth = async (keyValue: string): Promise<{ [model: string]: ModelCapability }> => {
+    const errors: unknown[] = [];
+    const previous = getSavedApiKeys().find(key => key.value === keyValue)?.capabilities ?? {};
+    const results = await Promise.all(PROBED_MODELS.map(async model => {
+        try {
+            await probeModel(keyValue, model);
+            // A real call that already succeeded is better evidence than the probe.
+            if (UNVERIFIABLE_MODELS.includes(model) && previous[model] !== 'available') return [model, 'unverified'] as const;
+            return [model, 'available'] as const;
+        } catch (error) {
+            console.error(`Probe of ${model} failed:`, error);
+            errors.push(error);
+            return [model, classifyProbe(error)] as const;
+        }
+    }));
+    const capabilities: { [model: string]: ModelCapability } = Object.fromEntries(results);
+
+    if (errors.length === PROBED_MODELS.length && errors.every(error => isInvalidKeyError(error) && !isModelUnavailableError(error))) {
+        markApiKeyAsInvalid(keyValue);
+    } else if (Object.values(capabilities).includes('available')) {
+        clearApiKeyStatus(keyValue);
+    }
+    setApiKeyCapabilities(keyValue, capabilities, Date.now());
+    return capabilities;
+};
@@ -0,0 +1,294 @@
+import type { SavedApiKey } from '../types';
+
+const API_KEYS_STORAGE_KEY = 'geminiApiKeysList';
+const VAULT_STORAGE_KEY = 'geminiApiKeyVault';
+// Keys for the OpenAI-compatible and Stable Diffusion providers. Projects refer to them by id only.
+const PROVIDER_SECRETS_STORAGE_KEY = 'providerApiKeys';
+const PBKDF2_ITERATIONS = 310000;
+// Encrypted with the derived key so a wrong passphrase can be told apart from corrupted key data.
+const VERIFIER_TEXT = 'ai-comic-maker-vault';
+
+interface EncryptedPayload {
+    iv: string; // base64
+    data: string; // base64
+}
+
+interface VaultMeta {
+    salt: string; // base64
+    iterations: number;
+    verifier: EncryptedPayload;
+}
+
+// In the vault format `value` is replaced by `encryptedValue`; status metadata stays readable so
+// key health can be updated without the passphrase.
+type StoredApiKey = Omit<SavedApiKey, 'value'> & { value?: string; encryptedValue?: EncryptedPayload };
+
+interface StoredSecret {
+    id: string;
+    value?: string;
+    encryptedValue?: EncryptedPayload;
+}
+
+// Decrypted key values live only here, for as long as the page is open.
+let vaultKey: CryptoKey | null = null;
+let unlockedValues: Map<string, string> | null = null;
+let unlockedSecrets: Map<string, string> | null = null;
+
+const notifyKeysUpdated = () => window.dispatchEvent(new CustomEvent('apiKeysUpdated'));
+
+const readStoredKeys = (): StoredApiKey[] => {
+    try {
+        const storedKeys = localStorage.getItem(API_KEYS_STORAGE_KEY);
+        return storedKeys ? JSON.parse(storedKeys) : [];
+    } catch (error) {
+        console.error("Failed to parse API keys from storage:", error);
+        return [];
+    }
+};
+
+const writeStoredKeys = (keys: StoredApiKey[]) => {
+    localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+    notifyKeysUpdated();
+};
+
+const readStoredSecrets = (): StoredSecret[] => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_SECRETS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to parse provider API keys from storage:", error);
+        return [];
+    }
+};
+
+const writeStoredSecrets = (secrets: StoredSecret[]) => {
+    localStorage.setItem(PROVIDER_SECRETS_STORAGE_KEY, JSON.stringify(secrets));
+    notifyKeysUpdated();
+};
+
+const readVaultMeta = (): VaultMeta | null => {
+    try {
+        const meta = localStorage.getItem(VAULT_STORAGE_KEY);
+        return meta ? JSON.parse(meta) : null;
+    } catch (error) {
+        console.error("Failed to parse API key vault from storage:", error);
+        return null;
+    }
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+const encrypt = async (key: CryptoKey, text: string): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+};
+
+const encryptKeys = async (key: CryptoKey, keys: SavedApiKey[]): Promise<StoredApiKey[]> =>
+    Promise.all(keys.map(async ({ value, ...meta }) => ({ ...meta, encryptedValue: await encrypt(key, value) })));
+
+const encryptSecrets = async (key: CryptoKey, secrets: Map<string, string>): Promise<StoredSecret[]> =>
+    Promise.all(Array.from(secrets, async ([id, value]) => ({ id, encryptedValue: await encrypt(key, value) })));
+
+export const isVaultEnabled = (): boolean => readVaultMeta() !== null;
+
+export const isVaultUnlocked = (): boolean => unlockedValues !== null;
+
+/** The saved keys with their plaintext values. Empty while the vault is locked. */
+export const getSavedApiKeys = (): SavedApiKey[] => {
+    const stored = readStoredKeys();
+    if (!isVaultEnabled()) return stored as SavedApiKey[];
+    if (!unlockedValues) return [];
+    const values = unlockedValues;
+    return stored
+        .filter(key => values.has(key.id))
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        .map(({ encryptedValue, ...meta }) => ({ ...meta, value: values.get(meta.id)! }));
+};
+
+/** Replaces the whole key list, encrypting the values when the vault is enabled. */
+export const saveApiKeys = async (keys: SavedApiKey[]): Promise<void> => {
+    if (!isVaultEnabled()) {
+        writeStoredKeys(keys);
+        return;
+    }
+    if (!vaultKey) {
+        throw new Error('Kho API key đang bị khóa. Vui lòng mở khóa trước khi thay đổi danh sách key.');
+    }
+    const encrypted = await encryptKeys(vaultKey, keys);
+    unlockedValues = new Map(keys.map(key => [key.id, key.value]));
+    writeStoredKeys(encrypted);
+};
+
+/** Applies a metadata-only change (such as status) to the key with the given plaintext value. */
+export const updateSavedApiKey = (keyValue: string, update: (key: SavedApiKey) => SavedApiKey | null) => {
+    const target = getSavedApiKeys().find(key => key.value === keyValue);
+    if (!target) return;
+    const updated = update(target);
+    if (!updated) return;
+
+    writeStoredKeys(readStoredKeys().map(stored => {
+        if (stored.id !== target.id) return stored;
+        const { value, ...meta } = updated;
+        return stored.encryptedValue ? { ...meta, encryptedValue: stored.encryptedValue } : { ...meta, value };
+    }));
+};
+
+export const createProviderSecretId = () => `provider-key-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** The provider key stored under `id`, or null if there is none or the vault is locked. */
+export const getProviderSecret = (id: string): string | null => {
+    const unlocked = unlockedSecrets?.get(id);
+    if (unlocked !== undefined) return unlocked;
+    const stored = readStoredSecrets().find(secret => secret.id === id);
+    if (!stored) return null;
+    if (!stored.encryptedValue) return stored.value ?? null;
+    return null;
+};
+
+/**
+ * Stores a provider key, under `id` if given, and returns its id. Encrypted when the vault is enabled.
+ * `allowWhileLocked` keeps a migrated key in plaintext until the next unlock encrypts it, instead of losing it.
+ */
+export const saveProviderSecret = async (value: string, id: string = createProviderSecretId(), allowWhileLocked = false): Promise<string> => {
+    if (!isVaultEnabled() || (!vaultKey && allowWhileLocked)) {
+        writeStoredSecrets([...readStoredSecrets().filter(secret => secret.id !== id), { id, value }]);
+        return id;
+    }
+    if (!vaultKey || !unlockedSecrets) {
+        throw new Error('Kho API key đang bị khóa. Vui lòng mở khóa trước khi thay đổi API key.');
+    }
+    const secrets = unlockedSecrets;
+    secrets.set(id, value);
+    const encryptedValue = await encrypt(vaultKey, value);
+    // Typing saves on every keystroke; an older value that finished encrypting late must not overwrite a newer one.
+    if (secrets.get(id) === value) {
+        writeStoredSecrets([...readStoredSecrets().filter(secret => secret.id !== id), { id, encryptedValue }]);
+    }
+    return id;
+};
+
+export const deleteProviderSecret = (id: string) => {
+    unlockedSecrets?.delete(id);
+    writeStoredSecrets(readStoredSecrets().filter(secret => secret.id !== id));
+};
+
+/** Encrypts the existing plaintext keys and unlocks the vault for this session. */
+export const enableVault = async (passphrase: string): Promise<void> => {
+    if (isVaultEnabled()) return;
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const meta: VaultMeta = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier: await encrypt(key, VERIFIER_TEXT) };
+
+    // Keys can be added, removed or updated while encrypting. Start over until a pass encrypted exactly what is
+    // stored, so the writes below, which run without awaiting in between, neither drop nor resurrect a key.
+    for (;;) {
+        const storedKeysJson = localStorage.getItem(API_KEYS_STORAGE_KEY);
+        const storedSecretsJson = localStorage.getItem(PROVIDER_SECRETS_STORAGE_KEY);
+        const plaintextKeys = readStoredKeys() as SavedApiKey[];
+        const plaintextSecrets = new Map(readStoredSecrets().map(secret => [secret.id, secret.value ?? '']));
+        const encrypted = await encryptKeys(key, plaintextKeys);
+        const encryptedSecrets = await encryptSecrets(key, plaintextSecrets);
+        if (isVaultEnabled()) return;
+        if (localStorage.getItem(API_KEYS_STORAGE_KEY) !== storedKeysJson || localStorage.getItem(PROVIDER_SECRETS_STORAGE_KEY) !== storedSecretsJson) {
+            continue;
+        }
+
+        localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(meta));
+        vaultKey = key;
+        unlockedValues = new Map(plaintextKeys.map(k => [k.id, k.value]));
+        unlockedSecrets = plaintextSecrets;
+        writeStoredKeys(encrypted);
+        writeStoredSecrets(encryptedSecrets);
+        return;
+    }
+};
+
+/** Decrypts a stored entry. The passphrase has already been verified, so a failure means the entry is damaged. */
+const decryptEntry = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+    try {
+        return await decrypt(key, payload);
+    } catch (error) {
+        console.error("Failed to decrypt a stored API key:", error);
+        throw new Error('Mật khẩu đúng nhưng dữ liệu của một API key đã lưu bị hỏng nên không thể giải mã.');
+    }
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+    const meta = readVaultMeta();
+    if (!meta) return;
+    const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+    try {
+        await decrypt(key, meta.verifier);
+    } catch {
+        throw new Error('Mật khẩu không đúng. Vui lòng thử lại.');
+    }
+
+    const stored = readStoredKeys();
+    const values = new Map<string, string>();
+    for (const entry of stored) {
+        // Plaintext entries can be left over from before the vault was enabled; they are encrypted below.
+        values.set(entry.id, entry.encryptedValue ? await decryptEntry(key, entry.encryptedValue) : entry.value ?? '');
+    }
+    const storedSecrets = readStoredSecrets();
+    const secrets = new Map<string, string>();
+    for (const entry of storedSecrets) {
+        secrets.set(entry.id, entry.encryptedValue ? await decryptEntry(key, entry.encryptedValue) : entry.value ?? '');
+    }
+    vaultKey = key;
+    unlockedValues = values;
+    unlockedSecrets = secrets;
+
+    if (storedSecrets.some(entry => !entry.encryptedValue)) {
+        writeStoredSecrets(await encryptSecrets(key, secrets));
+    }
+    if (stored.some(entry => !entry.encryptedValue)) {
+        await saveApiKeys(getSavedApiKeys());
+    } else {
+        notifyKeysUpdated();
+    }
+};
+
+export const lockVault = () => {
+    vaultKey = null;
+    unlockedValues = null;
+    unlockedSecrets = null;
+    notifyKeysUpdated();
+};
+
+/** Writes the keys back in plaintext and removes the vault. Only possible while unlocked. */
+export const disableVault = () => {
+    if (!unlockedValues) {
+        throw new Error('Kho API key đang bị khóa. Vui lòng mở khóa trước khi tắt mã hóa.');
+    }
+    const keys = getSavedApiKeys();
+    const secrets = Array.from(unlockedSecrets ?? [], ([id, value]) => ({ id, value }));
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    vaultKey = null;
+    unlockedValues = null;
+    unlockedSecrets = null;
+    writeStoredKeys(keys);
+    writeStoredSecrets(secrets);
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import type { MockScenario } from './mockProvider';
+import type { AiProvider } from './aiProvider';
+import { parseGeminiError } from './utils';
+
+const PLACEHOLDER_BASE64 = 'UExBQ0VIT0xERVI=';
+const STORY_PROMPT = 'Đọc câu chuyện được cung cấp và chia nó thành 2 cảnh chính. Câu chuyện: "Mai mở cửa. Cô gọi: "Ai đó?" Không ai trả lời."';
+
+type ProviderCall = (provider: AiProvider) => Promise<unknown>;
+
+const calls: { [name: string]: ProviderCall } = {
+    generateImageFromText: provider => provider.generateImageFromText('một con mèo', '16:9'),
+    editImageWithPrompt: provider => provider.editImageWithPrompt('aW1hZ2U=', 'image/png', 'thêm mũ'),
+    editImageRegion: provider => provider.editImageRegion('aW1hZ2U=', 'bWFzaw==', 'thêm mũ'),
+    generateSceneImage: provider => provider.generateSceneImage(['aW1hZ2U='], 'một cảnh'),
+    splitStoryIntoScenes: provider => provider.splitStoryIntoScenes(STORY_PROMPT),
+};
+
+// Node has no canvas; the placeholder only needs something that accepts drawing calls and returns a data URL.
+const stubCanvas = () => {
+    const context = {
+        fillRect: () => {},
+        strokeRect: () => {},
+        fillText: () => {},
+        measureText: (text: string) => ({ width: text.length * 10 }),
+    };
+    vi.stubGlobal('document', {
+        createElement: () => ({ getContext: () => context, toDataURL: () => `data:image/png;base64,${PLACEHOLDER_BASE64}` }),
+    });
+};
+
+/** Settles the call, skipping the mock's simulated latency. */
+const settle = async <T>(request: Promise<T>): Promise<T> => {
+    // Failures are awaited below; without this they would be reported as unhandled while the timers run.
+    request.catch(() => {});
+    await vi.runAllTimersAsync();
+    return request;
+};
+
+/** The message a step would show for the call's failure. */
+const errorMessageOf = async (scenario: MockScenario, call: ProviderCall): Promise<string> => {
+    try {
+        await settle(call(createMockProvider(scenario)));
+    } catch (error) {
+        return parseGeminiError(error);
+    }
+    throw new Error(`Expected the ${scenario} scenario to fail`);
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('mock provider: success', () => {
+    it.each(['generateImageFromText', 'editImageWithPrompt', 'editImageRegion', 'generateSceneImage'])('%s returns a placeholder image', async name => {
+        stubCanvas();
+        await expect(settle(calls[name](createMockProvider('success')))).resolves.toBe(PLACEHOLDER_BASE64);
+    });
+
+    it('splits the story into the requested number of scenes', async () => {
+        const scenes = await settle(createMockProvider('success').splitStoryIntoScenes(STORY_PROMPT));
+        expect(scenes).toHaveLength(2);
+        expect(scenes[0].description).toContain('Mai mở cửa.');
+        expect(scenes.flatMap(scene => scene.dialogue).map(line => line.text)).toContain('Ai đó?');
+    });
+
+    it('stops when the request is cancelled', async () => {
+        const controller = new AbortController();
+        const request = createMockProvider('success').splitStoryIntoScenes(STORY_PROMPT, { signal: controller.signal });
+        controller.abort();
+        await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('mock provider: errors as parseGeminiError reports them', () => {
+    it.each(Object.keys(calls))('quota: %s asks to wait or switch keys', async name => {
+        expect(await errorMessageOf('quota', calls[name])).toContain('vượt quá hạn ngạch API (lỗi 429)');
+    });
+
+    it.each(Object.keys(calls))('forbidden: %s reports an invalid key', async name => {
+        expect(await errorMessageOf('forbidden', calls[name])).toContain('API Key không hợp lệ');
+    });
+
+    it.each([
+        ['generateImageFromText', 'Ảnh đã bị bộ lọc an toàn chặn'],
+        ['generateSceneImage', 'AI không trả về kết quả nào'],
+        ['editImageRegion', 'AI không trả về kết quả nào'],
+        ['editImageWithPrompt', 'Không thể chỉnh sửa ảnh bằng AI.'],
+        ['splitStoryIntoScenes', 'AI đã trả về một phản hồi trống'],
+    ])('safety: %s', async (name, expected) => {
+        expect(await errorMessageOf('safety', calls[name])).toContain(expected);
+    });
+
+    it.each([
+        ['generateImageFromText', 'Không thể tạo ảnh từ AI.'],
+        ['generateSceneImage', 'Phản hồi từ AI không chứa dữ liệu hình ảnh'],
+        ['editImageWithPrompt', 'Không thể chỉnh sửa ảnh bằng AI.'],
+        ['splitStoryIntoScenes', 'AI đã trả về một phản hồi trống'],
+    ])('empty: %s', async (name, expected) => {
+        expect(await errorMessageOf('empty', calls[name])).toContain(expected);
+    });
+
+    it.each([
+        ['generateImageFromText', 'Không thể tạo ảnh từ AI.'],
+        ['generateSceneImage', 'AI đã trả về văn bản thay vì ảnh'],
+        ['editImageRegion', 'AI đã trả về văn bản thay vì ảnh'],
+        ['editImageWithPrompt', 'Không thể chỉnh sửa ảnh bằng AI.'],
+        ['splitStoryIntoScenes', 'không trả về định dạng JSON hợp lệ'],
+    ])('text-instead-of-image: %s', async (name, expected) => {
+        expect(await errorMessageOf('text-instead-of-image', calls[name])).toContain(expected);
+    });
+});
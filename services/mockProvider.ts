@@ -0,0 +1,179 @@
+import { BlockedReason } from "@google/genai";
+import type { ContentListUnion, GenerateContentParameters, GenerateImagesParameters, Part } from "@google/genai";
+import type { AiProvider } from './aiProvider';
+import { createGeminiClientProvider } from './geminiService';
+import type { GeminiClient } from './geminiService';
+import { SHOT_TYPES } from './storyboard';
+import type { StoryboardScene } from '../types';
+
+export type MockScenario = 'success' | 'quota' | 'forbidden' | 'safety' | 'empty' | 'text-instead-of-image';
+
+export const mockScenarioLabels: { [scenario in MockScenario]: string } = {
+    'success': 'Thành công',
+    'quota': 'Lỗi 429 - hết hạn ngạch',
+    'forbidden': 'Lỗi 403 - key không hợp lệ',
+    'safety': 'Bị bộ lọc an toàn chặn',
+    'empty': 'Phản hồi trống',
+    'text-instead-of-image': 'Trả về văn bản thay vì ảnh',
+};
+
+// Long enough for spinners to show, short enough not to slow down manual testing.
+const MOCK_LATENCY_MS = 300;
+const DEFAULT_SCENE_COUNT = 3;
+
+// Error bodies copied from real Gemini API responses so parseGeminiError sees what it sees in production.
+const QUOTA_ERROR = 'got status: 429 . {"error":{"code":429,"message":"You exceeded your current quota, please check your plan and billing details.","status":"RESOURCE_EXHAUSTED","details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"30s"}]}}';
+const FORBIDDEN_ERROR = 'got status: 403 . {"error":{"code":403,"message":"API key not valid. Please pass a valid API key.","status":"PERMISSION_DENIED"}}';
+const TEXT_REPLY = 'Tôi không thể tạo hình ảnh cho yêu cầu này, nhưng tôi có thể mô tả nó bằng lời.';
+
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+const hashString = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+};
+
+/** Draws the prompt onto a flat background whose colour is derived from the prompt, so output is repeatable. */
+const renderPlaceholder = (prompt: string, label: string, width: number, height: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const hue = hashString(prompt) % 360;
+    ctx.fillStyle = `hsl(${hue}, 45%, 30%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = `hsl(${hue}, 60%, 70%)`;
+    ctx.lineWidth = 8;
+    ctx.strokeRect(4, 4, width - 8, height - 8);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 28px sans-serif';
+    ctx.fillText(label, width / 2, 56);
+    ctx.font = '22px sans-serif';
+    const lines = wrapText(ctx, prompt, width - 80).slice(0, 14);
+    lines.forEach((line, index) => ctx.fillText(line, width / 2, 110 + index * 30));
+
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const sizeForAspectRatio = (aspectRatio: string = '1:1') => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: 768, height: 768 };
+    return w >= h ? { width: 768, height: Math.round((768 * h) / w) } : { width: Math.round((768 * w) / h), height: 768 };
+};
+
+// Splits the story embedded in the default story-split template into the requested number of chunks.
+// A customised template that drops those phrases splits its whole text into the default number of scenes.
+// Quoted speech becomes dialogue so the storyboard fields have something in them.
+const cannedScenes = (prompt: string): StoryboardScene[] => {
+    const story = prompt.match(/Câu chuyện: "([\s\S]*)"$/)?.[1] ?? prompt;
+    const count = parseInt(prompt.match(/chia nó thành (\d+) cảnh/)?.[1] ?? '', 10) || DEFAULT_SCENE_COUNT;
+    const sentences = story.split(/(?<=[.!?])\s+/).filter(Boolean);
+    const perScene = Math.max(1, Math.ceil(sentences.length / count));
+    return Array.from({ length: count }, (_, index) => {
+        const chunk = sentences.slice(index * perScene, (index + 1) * perScene).join(' ');
+        const quotes = Array.from(chunk.matchAll(/[“"]([^”"]+)[”"]/g), match => match[1].trim());
+        return {
+            description: `Cảnh ${index + 1}: ${chunk || 'Khung cảnh tiếp nối câu chuyện.'}`,
+            characters: [],
+            dialogue: quotes.map(text => ({ speaker: 'Nhân vật', text })),
+            narration: chunk.replace(/[“"][^”"]+[”"]/g, '').trim(),
+            shotType: SHOT_TYPES[index % SHOT_TYPES.length],
+            mood: 'mô phỏng',
+        };
+    });
+};
+
+// geminiService sends either a plain prompt or a single Content with parts.
+const getParts = (contents: ContentListUnion): Part[] => {
+    if (typeof contents === 'string') return [{ text: contents }];
+    if (Array.isArray(contents)) return [];
+    return 'parts' in contents ? contents.parts ?? [] : [];
+};
+
+const getTextParts = (contents: ContentListUnion): string[] =>
+    getParts(contents).flatMap(part => part.text ? [part.text] : []);
+
+const countImageParts = (contents: ContentListUnion): number =>
+    getParts(contents).filter(part => part.inlineData).length;
+
+/** Implements the subset of the GoogleGenAI client that geminiService uses, answering per `scenario`. */
+const createMockClient = (scenario: MockScenario): GeminiClient => {
+    const failIfNeeded = () => {
+        if (scenario === 'quota') throw new Error(QUOTA_ERROR);
+        if (scenario === 'forbidden') throw new Error(FORBIDDEN_ERROR);
+    };
+
+    return {
+        models: {
+            generateImages: async (params: GenerateImagesParameters) => {
+                await delay(params.config?.abortSignal);
+                failIfNeeded();
+                if (scenario === 'safety') {
+                    return { generatedImages: [{ raiFilteredReason: 'Mô tả có thể vi phạm chính sách an toàn (mô phỏng).' }] };
+                }
+                // Imagen has no text channel, so a text reply looks the same as an empty result.
+                if (scenario !== 'success') return { generatedImages: [] };
+                const { width, height } = sizeForAspectRatio(params.config?.aspectRatio);
+                return { generatedImages: [{ image: { imageBytes: renderPlaceholder(params.prompt, 'Ảnh mô phỏng', width, height) } }] };
+            },
+
+            generateContent: async (params: GenerateContentParameters) => {
+                await delay(params.config?.abortSignal);
+                failIfNeeded();
+                const isTextRequest = params.config?.responseMimeType === 'application/json';
+                const prompt = getTextParts(params.contents).join(' ');
+
+                if (scenario === 'safety') {
+                    return { candidates: [], promptFeedback: { blockReason: BlockedReason.SAFETY }, text: undefined };
+                }
+                if (scenario === 'empty') {
+                    return { candidates: [{ content: { parts: [] } }], text: '' };
+                }
+                if (scenario === 'text-instead-of-image') {
+                    return { candidates: [{ content: { parts: [{ text: TEXT_REPLY }] } }], text: TEXT_REPLY };
+                }
+                if (isTextRequest) {
+                    const text = JSON.stringify(cannedScenes(prompt));
+                    return { candidates: [{ content: { parts: [{ text }] } }], text };
+                }
+                // Edits and scene images come back square; SceneStep crops scenes to their aspect ratio anyway.
+                const inputCount = countImageParts(params.contents);
+                const data = renderPlaceholder(prompt, `Ảnh mô phỏng (${inputCount} ảnh đầu vào)`, 768, 768);
+                return { candidates: [{ content: { parts: [{ inlineData: { data, mimeType: 'image/png' } }] } }], text: undefined };
+            },
+        },
+    };
+};
+
+/** A Gemini provider that never leaves the browser, for development and for exercising error handling. */
+export const createMockProvider = (scenario: MockScenario): AiProvider =>
+    createGeminiClientProvider(createMockClient(scenario), 'mock');
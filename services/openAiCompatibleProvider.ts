@@ -0,0 +1,88 @@
+import type { AiProvider, ProviderSettings } from './aiProvider';
+import { base64ToBlob, blobToBase64, ensureOk, joinUrl, stripCodeFence } from './providerUtils';
+import { parseStoryboard } from './storyboard';
+import { toTransparentEditMask } from './imageMask';
+
+// The sizes accepted by gpt-image-1; most compatible servers accept them too.
+const sizeForAspectRatio = (aspectRatio: string): string => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    if (!width || !height || width === height) return '1024x1024';
+    return width > height ? '1536x1024' : '1024x1536';
+};
+
+interface ImageResponse {
+    data?: { b64_json?: string; url?: string }[];
+}
+
+/**
+ * Talks to any server that implements the OpenAI `images` and `chat/completions` endpoints,
+ * such as OpenAI itself, LocalAI or a LiteLLM proxy.
+ */
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings, apiKey: string): AiProvider => {
+    const headers = (): HeadersInit => (apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+
+    const readImage = async (response: Response, signal?: AbortSignal): Promise<string> => {
+        const body: ImageResponse = await (await ensureOk(response)).json();
+        const image = body.data?.[0];
+        if (image?.b64_json) return image.b64_json;
+        // Some servers ignore the request for base64 and return a hosted URL instead.
+        if (image?.url) return blobToBase64(await (await ensureOk(await fetch(image.url, { signal }))).blob());
+        throw new Error("Phản hồi từ nhà cung cấp AI không chứa dữ liệu hình ảnh.");
+    };
+
+    const editImages = async (images: { base64: string; mimeType: string }[], prompt: string, signal?: AbortSignal, maskBase64?: string): Promise<string> => {
+        const form = new FormData();
+        form.append('model', settings.imageModel);
+        form.append('prompt', prompt);
+        form.append('n', '1');
+        // Multiple input images use the array form of the field.
+        const field = images.length > 1 ? 'image[]' : 'image';
+        images.forEach((image, index) => form.append(field, base64ToBlob(image.base64, image.mimeType), `image-${index + 1}.png`));
+        if (maskBase64) form.append('mask', base64ToBlob(maskBase64, 'image/png'), 'mask.png');
+        return readImage(await fetch(joinUrl(settings.baseUrl, 'images/edits'), { method: 'POST', headers: headers(), body: form, signal }), signal);
+    };
+
+    const generateImage = async (prompt: string, aspectRatio: string, signal?: AbortSignal): Promise<string> => {
+        const response = await fetch(joinUrl(settings.baseUrl, 'images/generations'), {
+            method: 'POST',
+            headers: { ...headers(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: settings.imageModel, prompt, n: 1, size: sizeForAspectRatio(aspectRatio) }),
+            signal,
+        });
+        return readImage(response, signal);
+    };
+
+    return {
+        id: 'openai-compatible',
+
+        generateImageFromText: (prompt, aspectRatio = '1:1', options) => generateImage(prompt, aspectRatio, options?.signal),
+
+        editImageWithPrompt: (base64Image, mimeType, prompt, options) => editImages([{ base64: base64Image, mimeType }], prompt, options?.signal),
+
+        editImageRegion: async (base64Image, maskBase64, prompt, options) =>
+            editImages([{ base64: base64Image, mimeType: 'image/png' }], prompt, options?.signal, await toTransparentEditMask(maskBase64)),
+
+        // The edits endpoint requires an input image, so a scene with no cast is generated from the prompt alone.
+        generateSceneImage: (referenceImages, prompt, options) =>
+            referenceImages.length === 0
+                ? generateImage(prompt, '1:1', options?.signal)
+                : editImages(referenceImages.map(base64 => ({ base64, mimeType: 'image/png' })), prompt, options?.signal),
+
+        splitStoryIntoScenes: async (prompt, options) => {
+            if (!settings.textModel) {
+                throw new Error("Chưa cấu hình mô hình văn bản cho nhà cung cấp AI này. Hãy nhập tên mô hình ở Bước 1.");
+            }
+            const response = await fetch(joinUrl(settings.baseUrl, 'chat/completions'), {
+                method: 'POST',
+                headers: { ...headers(), 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: settings.textModel,
+                    messages: [{ role: 'user', content: prompt }],
+                }),
+                signal: options?.signal,
+            });
+            const body = await (await ensureOk(response)).json();
+            return parseStoryboard(stripCodeFence(body.choices?.[0]?.message?.content ?? ''));
+        },
+    };
+};
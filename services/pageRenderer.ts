@@ -0,0 +1,142 @@
+import type { ComicImage, ComicPage, PageStyle } from '../types';
+import { PAGE_WIDTH, getFrameRects, getPanelSourceRect } from './comicPages';
+import { drawBubbles } from './speechBubbles';
+
+// Draws composed pages onto canvases for the exports. The on-screen composer lays out the same frames with DOM
+// elements; both go through getFrameRects and getPanelSourceRect, so crops match apart from art run into the bleed.
+
+export interface PageRenderSize {
+    width: number; // trim size in pixels
+    height: number;
+    bleed?: number; // extra pixels on every side, filled with the page background
+}
+
+const loadImage = (base64: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = `data:image/png;base64,${base64}`;
+    });
+
+const createCanvas = (size: PageRenderSize): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const bleed = size.bleed ?? 0;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(size.width + 2 * bleed);
+    canvas.height = Math.round(size.height + 2 * bleed);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return [canvas, ctx];
+};
+
+// Below this margin, in page units, there is no room for a legible page number outside the art.
+const MIN_PAGE_NUMBER_MARGIN = 20;
+
+/** Draws the page number centered in the bottom margin. Pages whose margin is too narrow are left unnumbered. */
+const drawPageNumber = (ctx: CanvasRenderingContext2D, pageNumber: number, style: PageStyle, size: PageRenderSize) => {
+    if (style.margin < MIN_PAGE_NUMBER_MARGIN) return;
+    const bleed = size.bleed ?? 0;
+    const pixelsPerUnit = size.width / PAGE_WIDTH;
+    const marginPx = style.margin * pixelsPerUnit;
+    const fontSize = Math.min(marginPx * 0.5, size.width * 0.02);
+    ctx.save();
+    ctx.fillStyle = style.borderColor;
+    ctx.font = `${fontSize}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(pageNumber), bleed + size.width / 2, bleed + size.height - marginPx / 2);
+    ctx.restore();
+};
+
+/** Renders one page with its images, bubbles and borders. Panels whose image no longer exists are left empty. */
+export const renderComicPage = async (
+    page: ComicPage,
+    style: PageStyle,
+    imagesById: Map<string, ComicImage>,
+    size: PageRenderSize,
+    pageNumber?: number,
+): Promise<HTMLCanvasElement> => {
+    const [canvas, ctx] = createCanvas(size);
+    const bleed = size.bleed ?? 0;
+    const pixelsPerUnit = size.width / PAGE_WIDTH;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const frames = getFrameRects(page.layoutId, style, size.height / pixelsPerUnit);
+    for (const [index, frame] of frames.entries()) {
+        const x = bleed + frame.x * pixelsPerUnit;
+        const y = bleed + frame.y * pixelsPerUnit;
+        const width = frame.width * pixelsPerUnit;
+        const height = frame.height * pixelsPerUnit;
+        const panel = page.panels[index];
+        const image = panel?.imageId ? imagesById.get(panel.imageId) : undefined;
+
+        // Art in a frame that reaches the trim runs on through the bleed, so a cut that lands slightly
+        // outside the trim line still shows art rather than a strip of page background.
+        const edge = 0.5; // px of rounding tolerance
+        const left = x - bleed <= edge ? 0 : x;
+        const top = y - bleed <= edge ? 0 : y;
+        const right = x + width >= bleed + size.width - edge ? size.width + 2 * bleed : x + width;
+        const bottom = y + height >= bleed + size.height - edge ? size.height + 2 * bleed : y + height;
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(left, top, right - left, bottom - top);
+        ctx.clip();
+        if (image) {
+            const img = await loadImage(image.url);
+            // The crop covers the extended frame; inside the trim it differs from the editor by the bleed only.
+            const source = getPanelSourceRect(img.naturalWidth, img.naturalHeight, right - left, bottom - top, panel.crop);
+            // Draw in the image's own coordinates so bubbles land where the editor put them, then let the clip crop.
+            const scale = (right - left) / source.width;
+            ctx.translate(left - source.x * scale, top - source.y * scale);
+            ctx.scale(scale, scale);
+            ctx.drawImage(img, 0, 0);
+            if (image.bubbles) drawBubbles(ctx, image.bubbles, img.naturalWidth, img.naturalHeight);
+        }
+        ctx.restore();
+
+        if (style.borderWidth > 0) {
+            const borderPx = style.borderWidth * pixelsPerUnit;
+            ctx.strokeStyle = style.borderColor;
+            ctx.lineWidth = borderPx;
+            ctx.strokeRect(x + borderPx / 2, y + borderPx / 2, width - borderPx, height - borderPx);
+        }
+    }
+
+    if (pageNumber !== undefined) drawPageNumber(ctx, pageNumber, style, size);
+    return canvas;
+};
+
+/** A full-bleed cover: the image cover-fitted to the whole sheet with the title across the top. */
+export const renderCoverPage = async (image: ComicImage | undefined, title: string, size: PageRenderSize): Promise<HTMLCanvasElement> => {
+    const [canvas, ctx] = createCanvas(size);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (image) {
+        const img = await loadImage(image.url);
+        const source = getPanelSourceRect(img.naturalWidth, img.naturalHeight, canvas.width, canvas.height, { zoom: 1, focusX: 0.5, focusY: 0.5 });
+        ctx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+    }
+    const text = title.trim();
+    if (text) {
+        const bleed = size.bleed ?? 0;
+        const fontSize = size.width * 0.08;
+        ctx.save();
+        ctx.font = `bold ${fontSize}px "Comic Sans MS", Arial, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = fontSize * 0.15;
+        ctx.strokeStyle = '#000000';
+        ctx.fillStyle = '#ffffff';
+        const x = bleed + size.width / 2;
+        const y = bleed + size.height * 0.06;
+        ctx.strokeText(text, x, y, size.width * 0.9);
+        ctx.fillText(text, x, y, size.width * 0.9);
+        ctx.restore();
+    }
+    return canvas;
+};
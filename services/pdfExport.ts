@@ -0,0 +1,132 @@
+import type { ComicBook, ComicImage } from '../types';
+import { renderComicPage, renderCoverPage } from './pageRenderer';
+
+// Print-ready PDF of the composed pages, built entirely in the browser with jsPDF. Each page is rasterised at
+// the chosen DPI over trim + bleed, lowered where a canvas that size would fail; trim marks are drawn as vectors
+// in a slug around it so they stay sharp.
+
+export type PaperSizeId = 'a4' | 'letter' | 'b5-manga';
+
+export interface PaperSize {
+    id: PaperSizeId;
+    label: string;
+    width: number; // trim size in mm
+    height: number;
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+    { id: 'a4', label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+    { id: 'letter', label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+    { id: 'b5-manga', label: 'B5 manga (182 × 257 mm)', width: 182, height: 257 },
+];
+
+export const PDF_DPI_OPTIONS = [150, 300, 600];
+export const PDF_BLEED_OPTIONS = [0, 3, 5]; // mm
+
+export interface PdfExportOptions {
+    paperSizeId: PaperSizeId;
+    dpi: number;
+    bleed: number; // mm
+    trimMarks: boolean;
+    pageNumbers: boolean;
+    cover: { image?: ComicImage; title: string } | null;
+}
+
+const MM_PER_INCH = 25.4;
+// Browsers cap a canvas at roughly this many pixels (Safari at 16.7 M) and hand back a blank one beyond it.
+export const MAX_PAGE_PIXELS = 16_000_000;
+const TRIM_MARK_SLUG = 10; // mm of paper outside the bleed that carries the marks
+const TRIM_MARK_LENGTH = 6; // mm
+const JPEG_QUALITY = 0.92;
+
+// The part of jsPDF (loaded from the CDN) that the exporter uses. Units are whatever the document was created with.
+interface JsPdfDocument {
+    addPage(format: [number, number], orientation: 'portrait' | 'landscape'): JsPdfDocument;
+    addImage(imageData: string, format: 'JPEG' | 'PNG', x: number, y: number, width: number, height: number): JsPdfDocument;
+    line(x1: number, y1: number, x2: number, y2: number): JsPdfDocument;
+    setDrawColor(r: number, g: number, b: number): JsPdfDocument;
+    setLineWidth(width: number): JsPdfDocument;
+    output(type: 'blob'): Blob;
+}
+
+interface JsPdfOptions {
+    orientation: 'portrait' | 'landscape';
+    unit: 'mm';
+    format: [number, number];
+    compress?: boolean;
+}
+
+type JsPdfConstructor = new (options: JsPdfOptions) => JsPdfDocument;
+
+const getJsPdf = (): JsPdfConstructor => {
+    const jsPDF: JsPdfConstructor | undefined = (window as any).jspdf?.jsPDF;
+    if (typeof jsPDF === 'undefined') {
+        throw new Error('Lỗi: Thư viện tạo PDF (jsPDF) chưa được tải. Vui lòng kiểm tra kết nối mạng và làm mới trang.');
+    }
+    return jsPDF;
+};
+
+export const getPaperSize = (id: PaperSizeId): PaperSize => PAPER_SIZES.find(size => size.id === id) ?? PAPER_SIZES[0];
+
+/** The DPI pages are rendered at: `dpi`, or less if the sheet with its bleed would exceed MAX_PAGE_PIXELS. */
+export const getEffectiveDpi = (paperSizeId: PaperSizeId, dpi: number, bleed: number): number => {
+    const paper = getPaperSize(paperSizeId);
+    const squareInches = ((paper.width + 2 * bleed) / MM_PER_INCH) * ((paper.height + 2 * bleed) / MM_PER_INCH);
+    return Math.min(dpi, Math.floor(Math.sqrt(MAX_PAGE_PIXELS / squareInches)));
+};
+
+/** Marks at each corner on the trim lines, starting outside the bleed so a slightly off cut never shows them. */
+const drawTrimMarks = (doc: JsPdfDocument, trimX: number, trimY: number, trimWidth: number, trimHeight: number, bleed: number) => {
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.25);
+    const start = bleed + 1;
+    const end = start + TRIM_MARK_LENGTH;
+    for (const x of [trimX, trimX + trimWidth]) {
+        for (const y of [trimY, trimY + trimHeight]) {
+            const dx = x === trimX ? -1 : 1;
+            const dy = y === trimY ? -1 : 1;
+            doc.line(x + dx * start, y, x + dx * end, y);
+            doc.line(x, y + dy * start, x, y + dy * end);
+        }
+    }
+};
+
+/** Renders the pages (and an optional cover, which is not numbered) into a PDF. */
+export const exportComicPdf = async (
+    book: ComicBook,
+    imagesById: Map<string, ComicImage>,
+    options: PdfExportOptions,
+    onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+    const jsPDF = getJsPdf();
+    const paper = getPaperSize(options.paperSizeId);
+    const slug = options.trimMarks ? TRIM_MARK_SLUG : 0;
+    const sheetWidth = paper.width + 2 * (options.bleed + slug);
+    const sheetHeight = paper.height + 2 * (options.bleed + slug);
+    const pixelsPerMm = getEffectiveDpi(options.paperSizeId, options.dpi, options.bleed) / MM_PER_INCH;
+    const size = {
+        width: Math.round(paper.width * pixelsPerMm),
+        height: Math.round(paper.height * pixelsPerMm),
+        bleed: Math.round(options.bleed * pixelsPerMm),
+    };
+
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [sheetWidth, sheetHeight], compress: true });
+    const renderers: (() => Promise<HTMLCanvasElement>)[] = [
+        ...(options.cover ? [() => renderCoverPage(options.cover!.image, options.cover!.title, size)] : []),
+        ...book.pages.map((page, index) => () =>
+            renderComicPage(page, book.style, imagesById, size, options.pageNumbers ? index + 1 : undefined)),
+    ];
+
+    for (const [index, render] of renderers.entries()) {
+        onProgress?.(index, renderers.length);
+        const canvas = await render();
+        if (index > 0) doc.addPage([sheetWidth, sheetHeight], 'portrait');
+        doc.addImage(canvas.toDataURL('image/jpeg', JPEG_QUALITY), 'JPEG', slug, slug, paper.width + 2 * options.bleed, paper.height + 2 * options.bleed);
+        // Full-resolution pages are large; free each canvas before rendering the next.
+        canvas.width = 0;
+        canvas.height = 0;
+        if (options.trimMarks) drawTrimMarks(doc, slug + options.bleed, slug + options.bleed, paper.width, paper.height, options.bleed);
+    }
+    onProgress?.(renderers.length, renderers.length);
+    return doc.output('blob');
+};
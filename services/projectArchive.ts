@@ -0,0 +1,265 @@
+import type { ArtStyleSettings, Character, ComicBook, PromptTemplateOverrides, StylePreset, Scene, ComicImage, ImageRevision, SceneOverlay, VideoSegment } from '../types';
+import type { VideoConfig } from '../App';
+import { createProjectId, restoreObjectUrls } from './projectStore';
+import type { ProjectSnapshot } from './projectStore';
+import type { ProviderSettings } from './aiProvider';
+import { migrateReferenceImages } from './characterRoster';
+
+export const ARCHIVE_EXTENSION = '.comicproj';
+// Version 2 adds image revisions, each stored as its own zip entry.
+// Version 3 replaces the flat reference image list with the character roster.
+// Version 4 adds the art style with its custom presets.
+// Version 5 adds prompt template overrides.
+// Version 6 adds comic pages, which refer to scene images by id.
+// Version 7 adds speech bubbles, stored on the images they belong to.
+const ARCHIVE_VERSION = 7;
+const MANIFEST_PATH = 'manifest.json';
+
+// The manifest mirrors the app types, with every image or File replaced by a reference to a zip entry.
+interface ArchivedFile {
+    path: string;
+    name: string;
+    type: string;
+}
+
+type ArchivedRevision = Omit<ImageRevision, 'url'> & { path: string };
+type ArchivedImage = Omit<ComicImage, 'url' | 'revisions'> & { path: string | null; revisions?: ArchivedRevision[] };
+type ArchivedOverlay = Omit<SceneOverlay, 'file' | 'url'> & { file: ArchivedFile | null };
+type ArchivedSegment = Omit<VideoSegment, 'file' | 'url'> & { file: ArchivedFile | null };
+
+type ArchivedCharacter = Omit<Character, 'referenceImages'> & { referenceImages: string[] };
+type ArchivedArtStyle = Omit<ArtStyleSettings, 'customPresets'> & {
+    customPresets: (Omit<StylePreset, 'referenceImages'> & { referenceImages: string[] })[];
+};
+
+type ArchivedScene = Omit<Scene, 'images' | 'backgroundMusicFile' | 'backgroundMusicUrl' | 'overlay'> & {
+    images: ArchivedImage[];
+    backgroundMusicFile: ArchivedFile | null;
+    overlay?: ArchivedOverlay;
+};
+
+type ArchivedVideoConfig = Omit<VideoConfig, 'audioFile' | 'audioUrl' | 'intro' | 'outro'> & {
+    audioFile: ArchivedFile | null;
+    intro?: ArchivedSegment;
+    outro?: ArchivedSegment;
+};
+
+interface ProjectManifest {
+    version: number;
+    name: string;
+    updatedAt: number;
+    unlockedStep: number;
+    artStyle?: ArchivedArtStyle; // since version 4
+    promptTemplates?: PromptTemplateOverrides; // since version 5
+    characters?: ArchivedCharacter[];
+    referenceImages?: string[]; // before version 3
+    scenes: ArchivedScene[];
+    comicBook?: ComicBook; // since version 6
+    videoConfig: ArchivedVideoConfig;
+    providerSettings?: ProviderSettings;
+}
+
+// The part of JSZip (loaded from the CDN) that the archive and comic exports use.
+interface JSZipEntry {
+    async(type: 'string' | 'base64'): Promise<string>;
+    async(type: 'blob'): Promise<Blob>;
+}
+
+interface JSZipArchive {
+    file(path: string): JSZipEntry | null;
+    file(path: string, data: string | Blob, options?: { base64?: boolean; compression?: 'STORE' | 'DEFLATE' }): JSZipArchive;
+    generateAsync(options: { type: 'blob'; mimeType?: string; compression?: 'STORE' | 'DEFLATE' }): Promise<Blob>;
+}
+
+interface JSZipConstructor {
+    new (): JSZipArchive;
+    loadAsync(data: Blob): Promise<JSZipArchive>;
+}
+
+export const getJSZip = (): JSZipConstructor => {
+    const JSZip: JSZipConstructor | undefined = (window as any).JSZip;
+    if (typeof JSZip === 'undefined') {
+        throw new Error('Lỗi: Thư viện nén file (JSZip) chưa được tải. Vui lòng kiểm tra kết nối mạng và làm mới trang.');
+    }
+    return JSZip;
+};
+
+const sanitizeFileName = (name: string): string => name.replace(/[^\p{L}\p{N}._-]+/gu, '_');
+
+export const exportProjectArchive = async (project: ProjectSnapshot): Promise<Blob> => {
+    const JSZip = getJSZip();
+    const zip = new JSZip();
+
+    const addFile = (file: File | null | undefined, key: string): ArchivedFile | null => {
+        if (!file) return null;
+        const path = `media/${key}-${sanitizeFileName(file.name)}`;
+        zip.file(path, file);
+        return { path, name: file.name, type: file.type };
+    };
+
+    const addImage = (image: ComicImage): ArchivedImage => {
+        const { url, revisions, ...rest } = image;
+        const archivedRevisions = revisions?.map(({ url: revisionUrl, ...revisionRest }) => {
+            const path = `images/${image.id}/${revisionRest.id}.png`;
+            zip.file(path, revisionUrl, { base64: true });
+            return { ...revisionRest, path };
+        });
+        if (!url) return { ...rest, path: null, revisions: archivedRevisions };
+        const path = `images/${image.id}.png`;
+        zip.file(path, url, { base64: true });
+        return { ...rest, path, revisions: archivedRevisions };
+    };
+
+    const addSegment = (segment: VideoSegment | undefined, key: string): ArchivedSegment | undefined => {
+        if (!segment) return undefined;
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { file, url, ...rest } = segment;
+        return { ...rest, file: addFile(file, key) };
+    };
+
+    const addImages = (images: string[], folder: string): string[] => images.map((base64, index) => {
+        const path = `${folder}/${index + 1}.png`;
+        zip.file(path, base64, { base64: true });
+        return path;
+    });
+
+    const characters: ArchivedCharacter[] = project.characters.map(character => ({
+        ...character,
+        referenceImages: addImages(character.referenceImages, `characters/${character.id}`),
+    }));
+
+    const artStyle: ArchivedArtStyle = {
+        ...project.artStyle,
+        customPresets: project.artStyle.customPresets.map(preset => ({
+            ...preset,
+            referenceImages: addImages(preset.referenceImages, `styles/${preset.id}`),
+        })),
+    };
+
+    const scenes: ArchivedScene[] = project.scenes.map(scene => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { images, backgroundMusicFile, backgroundMusicUrl, overlay, ...rest } = scene;
+        let archivedOverlay: ArchivedOverlay | undefined;
+        if (overlay) {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { file, url, ...overlayRest } = overlay;
+            archivedOverlay = { ...overlayRest, file: addFile(file, `${scene.id}-overlay`) };
+        }
+        return {
+            ...rest,
+            images: images.map(addImage),
+            backgroundMusicFile: addFile(backgroundMusicFile, `${scene.id}-music`),
+            overlay: archivedOverlay,
+        };
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { audioFile, audioUrl, intro, outro, ...videoConfigRest } = project.videoConfig;
+    const manifest: ProjectManifest = {
+        version: ARCHIVE_VERSION,
+        name: project.name,
+        updatedAt: project.updatedAt,
+        unlockedStep: project.unlockedStep,
+        // Archives get shared; the key id would point at a secret that stays on this machine.
+        providerSettings: project.providerSettings && { ...project.providerSettings, apiKeyId: undefined },
+        artStyle,
+        promptTemplates: project.promptTemplates,
+        characters,
+        scenes,
+        comicBook: project.comicBook,
+        videoConfig: {
+            ...videoConfigRest,
+            audioFile: addFile(audioFile, 'narration'),
+            intro: addSegment(intro, 'intro'),
+            outro: addSegment(outro, 'outro'),
+        },
+    };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+};
+
+export const importProjectArchive = async (archive: Blob): Promise<ProjectSnapshot> => {
+    const JSZip = getJSZip();
+    let zip: JSZipArchive;
+    try {
+        zip = await JSZip.loadAsync(archive);
+    } catch (error) {
+        console.error("Failed to read project archive:", error);
+        throw new Error('Không thể đọc tệp. Hãy chắc chắn bạn đã chọn một tệp dự án (.comicproj) hợp lệ.');
+    }
+
+    const manifestEntry = zip.file(MANIFEST_PATH);
+    if (!manifestEntry) {
+        throw new Error('Tệp dự án thiếu manifest.json. Tệp có thể đã bị hỏng.');
+    }
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(await manifestEntry.async('string'));
+    } catch (error) {
+        throw new Error('manifest.json trong tệp dự án không phải là JSON hợp lệ.');
+    }
+    if (typeof manifest?.version !== 'number' || !Array.isArray(manifest.scenes) || !manifest.videoConfig) {
+        throw new Error('Tệp dự án không đúng định dạng mong đợi.');
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+        throw new Error(`Tệp dự án được tạo bởi phiên bản ứng dụng mới hơn (phiên bản ${manifest.version}). Vui lòng cập nhật ứng dụng.`);
+    }
+
+    const readEntry = (path: string) => {
+        const entry = zip.file(path);
+        if (!entry) throw new Error(`Tệp dự án thiếu dữ liệu "${path}". Tệp có thể đã bị hỏng.`);
+        return entry;
+    };
+    const readBase64 = (path: string): Promise<string> => readEntry(path).async('base64');
+    const readFile = async (archived: ArchivedFile | null | undefined): Promise<File | null> => {
+        if (!archived) return null;
+        const blob: Blob = await readEntry(archived.path).async('blob');
+        return new File([blob], archived.name, { type: archived.type });
+    };
+    const readSegment = async (segment: ArchivedSegment | undefined): Promise<VideoSegment | undefined> =>
+        segment ? { ...segment, file: await readFile(segment.file), url: null } : undefined;
+
+    const scenes: Scene[] = await Promise.all(manifest.scenes.map(async scene => {
+        const images = await Promise.all(scene.images.map(async ({ path, revisions, ...rest }) => ({
+            ...rest,
+            url: path ? await readBase64(path) : '',
+            revisions: revisions && await Promise.all(revisions.map(async ({ path: revisionPath, ...revisionRest }) => ({
+                ...revisionRest,
+                url: await readBase64(revisionPath),
+            }))),
+        })));
+        return {
+            ...scene,
+            images,
+            backgroundMusicFile: await readFile(scene.backgroundMusicFile),
+            backgroundMusicUrl: null,
+            overlay: scene.overlay ? { ...scene.overlay, file: await readFile(scene.overlay.file), url: null } : undefined,
+        };
+    }));
+
+    return restoreObjectUrls({
+        id: createProjectId(),
+        name: manifest.name,
+        updatedAt: Date.now(),
+        unlockedStep: manifest.unlockedStep ?? 1,
+        providerSettings: manifest.providerSettings,
+        promptTemplates: manifest.promptTemplates,
+        artStyle: manifest.artStyle && {
+            ...manifest.artStyle,
+            customPresets: await Promise.all(manifest.artStyle.customPresets.map(async preset => ({ ...preset, referenceImages: await Promise.all(preset.referenceImages.map(readBase64)) }))),
+        },
+        characters: manifest.characters
+            ? await Promise.all(manifest.characters.map(async character => ({ ...character, referenceImages: await Promise.all(character.referenceImages.map(readBase64)) })))
+            : migrateReferenceImages(await Promise.all((manifest.referenceImages ?? []).map(readBase64))),
+        scenes,
+        comicBook: manifest.comicBook,
+        videoConfig: {
+            ...manifest.videoConfig,
+            audioFile: await readFile(manifest.videoConfig.audioFile),
+            audioUrl: null,
+            intro: await readSegment(manifest.videoConfig.intro),
+            outro: await readSegment(manifest.videoConfig.outro),
+        },
+    });
+};
@@ -0,0 +1,223 @@
+import type { ArtStyleSettings, Character, ComicBook, PromptTemplateOverrides, Scene, SceneOverlay, VideoSegment } from '../types';
+import type { VideoConfig } from '../App';
+import { PROJECTS_STORE, PROJECT_SUMMARIES_STORE, getStore, getTransaction, runRequest } from './db';
+import { defaultProviderSettings } from './aiProvider';
+import type { ProviderSettings } from './aiProvider';
+import { migrateReferenceImages } from './characterRoster';
+import { defaultArtStyleSettings } from './artStyles';
+import { defaultComicBook } from './comicPages';
+import { saveProviderSecret } from './keyVault';
+
+const LAST_PROJECT_KEY = 'lastProjectId';
+
+export const DEFAULT_PROJECT_NAME = 'Dự án chưa đặt tên';
+
+export interface ProjectSnapshot {
+    id: string;
+    name: string;
+    updatedAt: number;
+    unlockedStep: number;
+    artStyle: ArtStyleSettings;
+    promptTemplates: PromptTemplateOverrides;
+    characters: Character[];
+    scenes: Scene[];
+    comicBook: ComicBook;
+    videoConfig: VideoConfig;
+    providerSettings: ProviderSettings;
+}
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    updatedAt: number;
+    sceneCount: number;
+    thumbnail: string | null; // base64 of the first selected scene image
+}
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Object URLs die with the page, so only the underlying File blobs are persisted.
+const withoutUrl = <T extends SceneOverlay | VideoSegment>(media: T | undefined): T | undefined =>
+    media ? { ...media, url: null } : undefined;
+
+const withRestoredUrl = <T extends SceneOverlay | VideoSegment>(media: T | undefined): T | undefined =>
+    media ? { ...media, url: media.file ? URL.createObjectURL(media.file) : null } : undefined;
+
+const revokeUrl = (url: string | null | undefined) => {
+    if (url) URL.revokeObjectURL(url);
+};
+
+/** Frees the object URLs restoreObjectUrls created, once the project is no longer open. */
+export const revokeObjectUrls = ({ scenes, videoConfig }: Pick<ProjectSnapshot, 'scenes' | 'videoConfig'>) => {
+    scenes.forEach(scene => {
+        revokeUrl(scene.backgroundMusicUrl);
+        revokeUrl(scene.overlay?.url);
+    });
+    revokeUrl(videoConfig.audioUrl);
+    revokeUrl(videoConfig.intro?.url);
+    revokeUrl(videoConfig.outro?.url);
+};
+
+const toStoredProject = (project: ProjectSnapshot): ProjectSnapshot => ({
+    ...project,
+    scenes: project.scenes.map(scene => ({
+        ...scene,
+        backgroundMusicUrl: null,
+        overlay: withoutUrl(scene.overlay),
+    })),
+    videoConfig: {
+        ...project.videoConfig,
+        audioUrl: null,
+        intro: withoutUrl(project.videoConfig.intro),
+        outro: withoutUrl(project.videoConfig.outro),
+    },
+});
+
+// Fields that only projects saved by older versions carry.
+export interface LegacyProjectFields {
+    referenceImages?: string[];
+}
+
+interface LegacyProviderSettings extends ProviderSettings {
+    apiKey?: string; // the provider key itself, before it moved to keyVault
+}
+
+const withoutLegacyApiKey = (settings: LegacyProviderSettings): ProviderSettings => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { apiKey, ...rest } = settings;
+    return rest;
+};
+
+export const restoreObjectUrls = ({ referenceImages, ...project }: ProjectSnapshot & LegacyProjectFields): ProjectSnapshot => ({
+    ...project,
+    name: project.name || DEFAULT_PROJECT_NAME,
+    // Projects saved before providers were selectable always used Gemini.
+    providerSettings: project.providerSettings ? withoutLegacyApiKey(project.providerSettings) : defaultProviderSettings,
+    artStyle: project.artStyle ?? defaultArtStyleSettings,
+    promptTemplates: project.promptTemplates ?? {},
+    comicBook: project.comicBook ?? defaultComicBook,
+    // Projects saved before the page step existed had the video as step 4.
+    unlockedStep: !project.comicBook && project.unlockedStep >= 4 ? project.unlockedStep + 1 : project.unlockedStep,
+    characters: project.characters ?? migrateReferenceImages(referenceImages),
+    scenes: project.scenes.map(scene => ({
+        ...scene,
+        // A generation that was in flight when the page closed can never finish.
+        images: scene.images.map(img => img.status === 'generating' ? { ...img, status: 'error' } : img),
+        backgroundMusicUrl: scene.backgroundMusicFile ? URL.createObjectURL(scene.backgroundMusicFile) : null,
+        overlay: withRestoredUrl(scene.overlay),
+    })),
+    videoConfig: {
+        ...project.videoConfig,
+        audioUrl: project.videoConfig.audioFile ? URL.createObjectURL(project.videoConfig.audioFile) : null,
+        intro: withRestoredUrl(project.videoConfig.intro),
+        outro: withRestoredUrl(project.videoConfig.outro),
+    },
+});
+
+const toSummary = (project: ProjectSnapshot): ProjectSummary => ({
+    id: project.id,
+    name: project.name || DEFAULT_PROJECT_NAME,
+    updatedAt: project.updatedAt,
+    sceneCount: project.scenes.length,
+    thumbnail: project.scenes
+        .flatMap(scene => scene.images)
+        .find(img => img.isSelected && img.status === 'done')?.url ?? null,
+});
+
+// The project exactly as persisted: File blobs are present but every object URL is null.
+export const loadStoredProject = async (id: string): Promise<ProjectSnapshot | undefined> => {
+    const store = await getStore(PROJECTS_STORE, 'readonly');
+    return runRequest<ProjectSnapshot | undefined>(store.get(id));
+};
+
+const putSummary = async (summary: ProjectSummary): Promise<void> => {
+    const store = await getStore(PROJECT_SUMMARIES_STORE, 'readwrite');
+    await runRequest(store.put(summary));
+};
+
+// The project and its summary are written in one transaction so the library never lists a stale name or date.
+const putStoredProject = async (project: ProjectSnapshot): Promise<void> => {
+    const transaction = await getTransaction([PROJECTS_STORE, PROJECT_SUMMARIES_STORE], 'readwrite');
+    await Promise.all([
+        runRequest(transaction.objectStore(PROJECTS_STORE).put(project)),
+        runRequest(transaction.objectStore(PROJECT_SUMMARIES_STORE).put(toSummary(project))),
+    ]);
+};
+
+export const saveProject = async (project: ProjectSnapshot): Promise<void> => {
+    await putStoredProject(toStoredProject(project));
+    localStorage.setItem(LAST_PROJECT_KEY, project.id);
+};
+
+// Moves a provider key saved inside the project into the key storage and rewrites the project without it.
+const migrateProviderApiKey = async (stored: ProjectSnapshot): Promise<ProjectSnapshot> => {
+    const settings: LegacyProviderSettings | undefined = stored.providerSettings;
+    if (settings?.apiKey === undefined) return stored;
+    const migrated = {
+        ...stored,
+        providerSettings: {
+            ...withoutLegacyApiKey(settings),
+            apiKeyId: settings.apiKey ? await saveProviderSecret(settings.apiKey, undefined, true) : undefined,
+        },
+    };
+    await putStoredProject(migrated);
+    return migrated;
+};
+
+export const loadProject = async (id: string): Promise<ProjectSnapshot | null> => {
+    const stored = await loadStoredProject(id);
+    return stored ? restoreObjectUrls(await migrateProviderApiKey(stored)) : null;
+};
+
+export const loadLastProject = async (): Promise<ProjectSnapshot | null> => {
+    const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+    return lastId ? loadProject(lastId) : null;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const transaction = await getTransaction([PROJECTS_STORE, PROJECT_SUMMARIES_STORE], 'readonly');
+    const [ids, summaries] = await Promise.all([
+        runRequest<IDBValidKey[]>(transaction.objectStore(PROJECTS_STORE).getAllKeys()),
+        runRequest<ProjectSummary[]>(transaction.objectStore(PROJECT_SUMMARIES_STORE).getAll()),
+    ]);
+    // Projects saved before summaries were stored separately get theirs written the first time they are listed.
+    const summarizedIds = new Set(summaries.map(summary => summary.id));
+    for (const id of ids.filter(id => !summarizedIds.has(id as string))) {
+        const stored = await loadStoredProject(id as string);
+        if (!stored) continue;
+        const summary = toSummary(stored);
+        await putSummary(summary);
+        summaries.push(summary);
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const stored = await loadStoredProject(id);
+    if (!stored) throw new Error(`Project ${id} not found.`);
+    await putStoredProject({ ...stored, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<string> => {
+    const stored = await loadStoredProject(id);
+    if (!stored) throw new Error(`Project ${id} not found.`);
+    const newId = createProjectId();
+    await putStoredProject({
+        ...stored,
+        id: newId,
+        name: `${stored.name || DEFAULT_PROJECT_NAME} (bản sao)`,
+        updatedAt: Date.now(),
+    });
+    return newId;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const transaction = await getTransaction([PROJECTS_STORE, PROJECT_SUMMARIES_STORE], 'readwrite');
+    await Promise.all([
+        runRequest(transaction.objectStore(PROJECTS_STORE).delete(id)),
+        runRequest(transaction.objectStore(PROJECT_SUMMARIES_STORE).delete(id)),
+    ]);
+    if (localStorage.getItem(LAST_PROJECT_KEY) === id) {
+        localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+};
@@ -0,0 +1,115 @@
+import type { Character, PromptTemplateId, PromptTemplateOverrides, Scene, StylePreset } from '../types';
+import { SHOT_TYPES, describeSceneCharacters, describeSceneFraming } from './storyboard';
+import { describeArtStyle, getStyleReferences } from './artStyles';
+import type { TurnaroundView } from './turnaroundSheet';
+
+// Every prompt the app sends to a model, as templates a project can override. Placeholders look like {{name}}.
+
+export const placeholderDescriptions: { [name: string]: string } = {
+    description: 'Mô tả nhân vật hoặc bối cảnh của cảnh',
+    style: 'Phong cách vẽ của dự án (trống nếu không áp dụng)',
+    characters: 'Các nhân vật trong cảnh và ảnh tham chiếu của họ',
+    framing: 'Góc máy và không khí của cảnh',
+    view: 'Góc nhìn hoặc biểu cảm của ô trong bộ nhân vật',
+    numScenes: 'Số cảnh cần chia (hoặc "vài")',
+    story: 'Nội dung truyện',
+};
+
+interface PromptTemplateInfo {
+    label: string;
+    placeholders: string[];
+    defaultTemplate: string;
+}
+
+export const PROMPT_TEMPLATES: { [id in PromptTemplateId]: PromptTemplateInfo } = {
+    character: {
+        label: 'Tạo nhân vật',
+        placeholders: ['description', 'style'],
+        defaultTemplate: 'A full-body character reference sheet for a comic book character. Description: {{description}}. Clean lines, white background. {{style}}',
+    },
+    turnaroundFront: {
+        label: 'Bộ nhân vật: ảnh chính diện',
+        placeholders: ['description', 'view', 'style'],
+        defaultTemplate: 'A character reference for a comic book character, {{view}}. Description: {{description}}. Clean lines, white background. {{style}}',
+    },
+    turnaroundView: {
+        label: 'Bộ nhân vật: các góc nhìn và biểu cảm khác',
+        placeholders: ['description', 'view', 'style'],
+        defaultTemplate: 'The same character as in reference image 1, {{view}}. Keep the face, hair, outfit and colors identical to the reference. Description: {{description}}. Clean lines, white background. {{style}}',
+    },
+    scene: {
+        label: 'Tạo ảnh cảnh',
+        placeholders: ['description', 'framing', 'characters', 'style'],
+        defaultTemplate: 'Tạo một khung truyện tranh. Bối cảnh: {{description}}. {{framing}} {{characters}} {{style}}',
+    },
+    storySplit: {
+        label: 'Chia truyện thành cảnh',
+        placeholders: ['numScenes', 'story'],
+        defaultTemplate: `Nhiệm vụ của bạn là hoạt động như một công cụ phân cảnh cho họa sĩ truyện tranh. Đọc câu chuyện được cung cấp và chia nó thành {{numScenes}} cảnh chính. Với MỖI cảnh, trả về một đối tượng gồm:
+- "description": mô tả **chỉ để vẽ**, ngắn gọn, tập trung vào các yếu tố HÌNH ẢNH: hành động, biểu cảm của nhân vật, và bối cảnh xung quanh. TUYỆT ĐỐI KHÔNG sao chép hoặc diễn giải lại các câu từ câu chuyện gốc.
+- "characters": tên các nhân vật xuất hiện trong cảnh.
+- "dialogue": các câu thoại trong cảnh, mỗi câu gồm "speaker" (người nói) và "text" (lời thoại). Để mảng rỗng nếu không có thoại.
+- "narration": một câu dẫn truyện ngắn để làm chú thích và lồng tiếng, hoặc chuỗi rỗng.
+- "shotType": góc máy, một trong ${SHOT_TYPES.map(shot => `"${shot}"`).join(', ')}.
+- "mood": không khí của cảnh trong vài từ.
+Chỉ trả về một mảng JSON hợp lệ chứa các đối tượng này.
+
+Ví dụ đầu ra đúng: [{"description": "Cô bé quàng khăn đỏ đang đi bộ trên con đường mòn trong một khu rừng rậm rạp.", "characters": ["Cô bé quàng khăn đỏ"], "dialogue": [], "narration": "Một buổi sáng, cô bé mang bánh sang nhà bà.", "shotType": "wide", "mood": "yên bình"}, {"description": "Một con sói gian ác đang nấp sau một cái cây, nhìn cô bé.", "characters": ["Sói", "Cô bé quàng khăn đỏ"], "dialogue": [{"speaker": "Sói", "text": "Cô bé đi đâu thế?"}], "narration": "", "shotType": "over-the-shoulder", "mood": "căng thẳng"}]
+
+Câu chuyện: "{{story}}"`,
+    },
+};
+
+export const getPromptTemplate = (overrides: PromptTemplateOverrides, id: PromptTemplateId): string =>
+    overrides[id] ?? PROMPT_TEMPLATES[id].defaultTemplate;
+
+/** Fills known placeholders and leaves unknown ones as typed. A placeholder that renders empty takes the space before it along. */
+export const renderPromptTemplate = (template: string, values: { [name: string]: string }): string =>
+    template
+        .replace(/( ?)\{\{\s*(\w+)\s*\}\}/g, (match, space: string, name: string) => {
+            const value = values[name];
+            if (value === undefined) return match;
+            return value ? `${space}${value}` : '';
+        })
+        .trim();
+
+/** A prompt with the images that go with it, in the order the prompt numbers them. */
+export interface RenderedPrompt {
+    prompt: string;
+    references: string[];
+}
+
+export const buildCharacterPrompt = (overrides: PromptTemplateOverrides, description: string, style: StylePreset | null): RenderedPrompt => ({
+    prompt: renderPromptTemplate(getPromptTemplate(overrides, 'character'), { description, style: describeArtStyle(style, 0) }),
+    references: getStyleReferences(style),
+});
+
+/** Pass the finished front view as `anchorImage` for every other panel; the front view itself is drawn without one. */
+export const buildTurnaroundPrompt = (overrides: PromptTemplateOverrides, description: string, view: TurnaroundView, style: StylePreset | null, anchorImage?: string): RenderedPrompt => {
+    const references = anchorImage !== undefined ? [anchorImage] : [];
+    return {
+        prompt: renderPromptTemplate(getPromptTemplate(overrides, anchorImage !== undefined ? 'turnaroundView' : 'turnaroundFront'), {
+            description,
+            view: view.prompt,
+            style: describeArtStyle(style, references.length),
+        }),
+        references: [...references, ...getStyleReferences(style)],
+    };
+};
+
+/** `cast` must be in the same order as their reference images are sent, which this returns alongside the prompt. */
+export const buildScenePrompt = (overrides: PromptTemplateOverrides, scene: Scene, cast: Character[], style: StylePreset | null): RenderedPrompt => {
+    const references = cast.flatMap(character => character.referenceImages);
+    return {
+        prompt: renderPromptTemplate(getPromptTemplate(overrides, 'scene'), {
+            description: scene.description,
+            framing: describeSceneFraming(scene),
+            characters: describeSceneCharacters(cast),
+            style: describeArtStyle(style, references.length),
+        }),
+        references: [...references, ...getStyleReferences(style)],
+    };
+};
+
+export const buildStorySplitPrompt = (overrides: PromptTemplateOverrides, story: string, numScenes?: number): string =>
+    renderPromptTemplate(getPromptTemplate(overrides, 'storySplit'), { story, numScenes: numScenes ? String(numScenes) : 'vài' });
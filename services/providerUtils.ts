@@ -0,0 +1,32 @@
+// Shared by the provider implementations. The storyboard prompt and parser live in storyboard.ts.
+
+export const base64ToBlob = (base64: string, mimeType: string = 'image/png'): Blob => {
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = error => reject(error);
+    });
+};
+
+/** Throws with the status code in the message so quota and auth errors are recognised like Gemini's. */
+export const ensureOk = async (response: Response): Promise<Response> => {
+    if (response.ok) return response;
+    let detail = '';
+    try {
+        detail = await response.text();
+    } catch {
+        // The status code alone is still useful.
+    }
+    throw new Error(`Nhà cung cấp AI trả về lỗi ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+};
+
+export const joinUrl = (baseUrl: string, path: string): string => `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+// Chat models often wrap JSON in a markdown code fence even when asked not to.
+export const stripCodeFence = (text: string): string => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
@@ -0,0 +1,145 @@
+import { RESPONSE_CACHE_STORE, RESPONSE_CACHE_LRU_INDEX, getStore, runRequest } from './db';
+
+export const RESPONSE_CACHE_UPDATED_EVENT = 'responseCacheUpdated';
+
+const MAX_SIZE_STORAGE_KEY = 'responseCacheMaxMb';
+export const DEFAULT_CACHE_MAX_MB = 200;
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+    size: number; // approximate, in characters of base64 or JSON
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+/** Everything that determines a response. Reference images are hashed before they become part of the key. */
+export interface CacheKeyParts {
+    model: string;
+    prompt: string;
+    references?: string[];
+    aspectRatio?: string;
+    mimeType?: string; // of the input image, for calls that send its type along with it
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashText = async (text: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+export const buildCacheKey = async ({ model, prompt, references = [], aspectRatio = '', mimeType = '' }: CacheKeyParts): Promise<string> => {
+    const referenceHashes = await Promise.all(references.map(hashText));
+    return hashText(JSON.stringify([model, prompt, referenceHashes, aspectRatio, mimeType]));
+};
+
+/** 0 turns the cache off. */
+export const getCacheMaxMb = (): number => {
+    const stored = parseFloat(localStorage.getItem(MAX_SIZE_STORAGE_KEY) ?? '');
+    return stored >= 0 ? stored : DEFAULT_CACHE_MAX_MB;
+};
+
+const measure = (value: unknown): number => (typeof value === 'string' ? value.length : JSON.stringify(value).length);
+
+const notify = () => {
+    window.dispatchEvent(new CustomEvent(RESPONSE_CACHE_UPDATED_EVENT));
+};
+
+// Oldest use first, read from the index so the cached images themselves stay on disk.
+const listEntrySizes = async (): Promise<{ key: string; size: number }[]> => {
+    const store = await getStore(RESPONSE_CACHE_STORE, 'readonly');
+    return new Promise((resolve, reject) => {
+        const entries: { key: string; size: number }[] = [];
+        const request = store.index(RESPONSE_CACHE_LRU_INDEX).openKeyCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve(entries);
+            const [, size] = cursor.key as [number, number];
+            entries.push({ key: cursor.primaryKey as string, size });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const evictToLimit = async (): Promise<void> => {
+    const maxBytes = getCacheMaxMb() * 1024 * 1024;
+    const entries = await listEntrySizes();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+        if (total <= maxBytes) break;
+        evicted.push(entry.key);
+        total -= entry.size;
+    }
+    if (evicted.length === 0) return;
+    const store = await getStore(RESPONSE_CACHE_STORE, 'readwrite');
+    await Promise.all(evicted.map(key => runRequest(store.delete(key))));
+};
+
+const readCachedResponse = async <T>(key: string): Promise<T | undefined> => {
+    const entry = await runRequest((await getStore(RESPONSE_CACHE_STORE, 'readonly')).get(key) as IDBRequest<CacheEntry | undefined>);
+    if (!entry) return undefined;
+    await runRequest((await getStore(RESPONSE_CACHE_STORE, 'readwrite')).put({ ...entry, lastUsedAt: Date.now() }));
+    return entry.value as T;
+};
+
+const writeCachedResponse = async (key: string, value: unknown): Promise<void> => {
+    const now = Date.now();
+    const entry: CacheEntry = { key, value, size: measure(value), createdAt: now, lastUsedAt: now };
+    await runRequest((await getStore(RESPONSE_CACHE_STORE, 'readwrite')).put(entry));
+    await evictToLimit();
+    notify();
+};
+
+/**
+ * Returns the stored response for `parts` if there is one, otherwise runs the call and stores its result.
+ * `forceNew` skips the lookup but still stores the fresh result in place of the old one.
+ * Cache failures are logged and never fail the call itself.
+ */
+export const withResponseCache = async <T>(parts: CacheKeyParts, forceNew: boolean | undefined, run: () => Promise<T>): Promise<T> => {
+    if (getCacheMaxMb() === 0) return run();
+
+    let key: string | null = null;
+    try {
+        key = await buildCacheKey(parts);
+        if (!forceNew) {
+            const cached = await readCachedResponse<T>(key);
+            if (cached !== undefined) return cached;
+        }
+    } catch (error) {
+        console.error("Failed to read the response cache:", error);
+    }
+
+    const result = await run();
+    if (key) {
+        writeCachedResponse(key, result).catch(error => console.error("Failed to write the response cache:", error));
+    }
+    return result;
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const entries = await listEntrySizes();
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const setCacheMaxMb = async (maxMb: number): Promise<void> => {
+    localStorage.setItem(MAX_SIZE_STORAGE_KEY, String(Math.max(0, maxMb)));
+    if (maxMb === 0) {
+        await clearResponseCache();
+        return;
+    }
+    await evictToLimit();
+    notify();
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    const store = await getStore(RESPONSE_CACHE_STORE, 'readwrite');
+    await runRequest(store.clear());
+    notify();
+};
@@ -0,0 +1,108 @@
+import type { ComicImage, Scene, SceneOverlay } from '../types';
+
+// Pure edits to the ordered scene list. Scenes keep their images, music and overlay wherever they move;
+// the video timeline is built from the list order, so it follows automatically.
+
+const createSceneId = () => `scene-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createScene = (fields: Partial<Scene> = {}): Scene => ({
+    description: '',
+    images: [],
+    backgroundMusicFile: null,
+    backgroundMusicUrl: null,
+    backgroundMusicVolume: 0.2,
+    backgroundMusicTrimStart: 0,
+    backgroundMusicTrimEnd: null,
+    backgroundMusicDuration: 0,
+    ...fields,
+    id: createSceneId(),
+});
+
+export const moveScene = (scenes: Scene[], fromIndex: number, toIndex: number): Scene[] => {
+    if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= scenes.length) return scenes;
+    const next = [...scenes];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, moved);
+    return next;
+};
+
+export const insertScene = (scenes: Scene[], index: number, scene: Scene): Scene[] =>
+    [...scenes.slice(0, index), scene, ...scenes.slice(index)];
+
+const copyImage = (image: ComicImage): ComicImage => ({ ...image, id: `img-${Date.now()}-${Math.random()}` });
+
+// Object URLs get revoked when their owner drops the media, so a copy needs URLs of its own.
+const copyOverlay = (overlay: SceneOverlay | undefined): SceneOverlay | undefined =>
+    overlay && { ...overlay, url: overlay.file ? URL.createObjectURL(overlay.file) : overlay.url };
+
+/** Unfinished images are left behind: their requests write into the original. */
+export const duplicateScene = (scene: Scene): Scene => ({
+    ...scene,
+    id: createSceneId(),
+    images: scene.images.filter(img => img.status === 'done').map(copyImage),
+    backgroundMusicUrl: scene.backgroundMusicFile ? URL.createObjectURL(scene.backgroundMusicFile) : scene.backgroundMusicUrl,
+    overlay: copyOverlay(scene.overlay),
+});
+
+// Cuts at the sentence boundary closest to the middle, or returns everything as the first half if there is none.
+const splitText = (text: string | undefined): [string, string] => {
+    const sentences = (text ?? '').split(/(?<=[.!?…])\s+/).filter(Boolean);
+    if (sentences.length < 2) return [text ?? '', ''];
+    const middle = Math.ceil(sentences.length / 2);
+    return [sentences.slice(0, middle).join(' '), sentences.slice(middle).join(' ')];
+};
+
+/**
+ * Splits a scene's storyboard text and dialogue in half. Images, music and the overlay stay with the first half,
+ * which keeps the original id; the second half starts without images.
+ */
+export const splitScene = (scene: Scene): [Scene, Scene] => {
+    const [firstDescription, secondDescription] = splitText(scene.description);
+    const [firstNarration, secondNarration] = splitText(scene.narration);
+    const dialogue = scene.dialogue ?? [];
+    const middle = Math.ceil(dialogue.length / 2);
+    const first: Scene = { ...scene, description: firstDescription, narration: firstNarration, dialogue: dialogue.slice(0, middle) };
+    const second = createScene({
+        description: secondDescription || scene.description,
+        characters: scene.characters,
+        castIds: scene.castIds,
+        shotType: scene.shotType,
+        mood: scene.mood,
+        narration: secondNarration,
+        dialogue: dialogue.slice(middle),
+        variationCount: scene.variationCount,
+    });
+    return [first, second];
+};
+
+const joinText = (a: string | undefined, b: string | undefined): string => [a, b].map(text => text?.trim()).filter(Boolean).join(' ');
+
+const unique = <T>(values: T[]): T[] => Array.from(new Set(values));
+
+/**
+ * Appends `second` to `first`, keeping the first scene's id and framing. Images are concatenated; music and
+ * the overlay come from the first scene when it has them, otherwise from the second.
+ */
+export const mergeScenes = (first: Scene, second: Scene): Scene => ({
+    ...first,
+    description: joinText(first.description, second.description),
+    narration: joinText(first.narration, second.narration),
+    dialogue: [...(first.dialogue ?? []), ...(second.dialogue ?? [])],
+    characters: unique([...(first.characters ?? []), ...(second.characters ?? [])]),
+    // An uncast scene holds the whole roster, so the merge does too.
+    castIds: first.castIds && second.castIds ? unique([...first.castIds, ...second.castIds]) : undefined,
+    images: [...first.images, ...second.images],
+    ...(first.backgroundMusicFile || !second.backgroundMusicFile ? {} : {
+        backgroundMusicFile: second.backgroundMusicFile,
+        backgroundMusicUrl: second.backgroundMusicUrl,
+        backgroundMusicVolume: second.backgroundMusicVolume,
+        backgroundMusicTrimStart: second.backgroundMusicTrimStart,
+        backgroundMusicTrimEnd: second.backgroundMusicTrimEnd,
+        backgroundMusicDuration: second.backgroundMusicDuration,
+    }),
+    overlay: first.overlay?.url ? first.overlay : second.overlay ?? first.overlay,
+});
+
+/** True when merging would drop the second scene's music or overlay. */
+export const mergeDropsMedia = (first: Scene, second: Scene): boolean =>
+    (!!first.backgroundMusicFile && !!second.backgroundMusicFile) || (!!first.overlay?.url && !!second.overlay?.url);
@@ -0,0 +1,307 @@
+import type { BubbleShape, ComicImage, Scene, SpeechBubble } from '../types';
+
+// Speech bubbles and captions. They are stored as shapes over the image and drawn onto a canvas both for the
+// on-screen previews and for every export, so what the editor shows is exactly what gets written out.
+
+export const BUBBLE_SHAPES: { id: BubbleShape; label: string }[] = [
+    { id: 'speech', label: 'Lời thoại' },
+    { id: 'thought', label: 'Suy nghĩ' },
+    { id: 'shout', label: 'Hét' },
+    { id: 'caption', label: 'Chú thích' },
+];
+
+// System fonts only, each with fallbacks that cover Vietnamese diacritics.
+export const BUBBLE_FONTS: { id: string; label: string; css: string }[] = [
+    { id: 'comic', label: 'Truyện tranh', css: '"Comic Sans MS", "Comic Neue", "Chalkboard SE", cursive' },
+    { id: 'sans', label: 'Không chân', css: 'Arial, "Helvetica Neue", sans-serif' },
+    { id: 'serif', label: 'Có chân', css: 'Georgia, "Times New Roman", serif' },
+    { id: 'hand', label: 'Viết tay', css: '"Segoe Print", "Bradley Hand", "Comic Sans MS", cursive' },
+];
+
+const DEFAULT_FONT_SIZE = 3.2;
+// Text shrinks to fit its bubble, but never below this share of the chosen size.
+const MIN_FONT_SCALE = 0.5;
+const LINE_HEIGHT = 1.2;
+
+const getFontCss = (fontId: string): string => (BUBBLE_FONTS.find(font => font.id === fontId) ?? BUBBLE_FONTS[0]).css;
+
+const createBubbleId = () => `bubble-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBubble = (shape: BubbleShape, fields: Partial<SpeechBubble> = {}): SpeechBubble => ({
+    shape,
+    text: '',
+    x: 0.3,
+    y: 0.1,
+    width: shape === 'caption' ? 0.45 : 0.36,
+    height: shape === 'caption' ? 0.12 : 0.2,
+    tailX: 0.45,
+    tailY: 0.45,
+    fontId: BUBBLE_FONTS[0].id,
+    fontSize: DEFAULT_FONT_SIZE,
+    ...fields,
+    id: createBubbleId(),
+});
+
+/**
+ * A starting set of bubbles from a scene's storyboard: the narration as a caption in the top corner, then one
+ * speech bubble per dialogue line, alternating sides from the top down with the tail pointing below.
+ */
+export const bubblesFromScene = (scene: Scene): SpeechBubble[] => {
+    const bubbles: SpeechBubble[] = [];
+    const narration = scene.narration?.trim();
+    if (narration) {
+        bubbles.push(createBubble('caption', { text: narration, x: 0.03, y: 0.03 }));
+    }
+    (scene.dialogue ?? []).filter(line => line.text.trim()).forEach((line, index) => {
+        const x = index % 2 === 0 ? 0.05 : 0.59;
+        const y = Math.min(0.75, (narration ? 0.18 : 0.05) + index * 0.2);
+        bubbles.push(createBubble('speech', {
+            text: line.text.trim(),
+            x,
+            y,
+            tailX: x + 0.18 + (index % 2 === 0 ? 0.05 : -0.05),
+            tailY: Math.min(0.98, y + 0.32),
+        }));
+    });
+    return bubbles;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (ctx.measureText(candidate).width <= maxWidth || !line) {
+                line = candidate;
+            } else {
+                lines.push(line);
+                line = word;
+            }
+        }
+        return [...lines, line];
+    });
+
+interface BubbleBox {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    centerX: number;
+    centerY: number;
+    radiusX: number;
+    radiusY: number;
+}
+
+const getBox = (bubble: SpeechBubble, width: number, height: number): BubbleBox => {
+    const box = { left: bubble.x * width, top: bubble.y * height, width: bubble.width * width, height: bubble.height * height };
+    return { ...box, centerX: box.left + box.width / 2, centerY: box.top + box.height / 2, radiusX: box.width / 2, radiusY: box.height / 2 };
+};
+
+// The area the text may use: ellipse-like shapes lose their corners, captions only a small padding.
+const getTextArea = (bubble: SpeechBubble, box: BubbleBox) =>
+    bubble.shape === 'caption'
+        ? { width: box.width * 0.9, height: box.height * 0.8 }
+        : { width: box.width * 0.7, height: box.height * 0.66 };
+
+const fontFor = (bubble: SpeechBubble, size: number) => `${bubble.shape === 'shout' ? 'bold ' : ''}${size}px ${getFontCss(bubble.fontId)}`;
+
+/** Wraps the text to the bubble and shrinks it until it fits, down to MIN_FONT_SCALE of the chosen size. */
+const layoutText = (ctx: CanvasRenderingContext2D, bubble: SpeechBubble, box: BubbleBox, imageWidth: number) => {
+    const area = getTextArea(bubble, box);
+    const chosenSize = (bubble.fontSize / 100) * imageWidth;
+    let size = chosenSize;
+    for (;;) {
+        ctx.font = fontFor(bubble, size);
+        const lines = wrapText(ctx, bubble.text, area.width);
+        const fits = lines.length * size * LINE_HEIGHT <= area.height && lines.every(line => ctx.measureText(line).width <= area.width);
+        if (fits || size <= chosenSize * MIN_FONT_SCALE) return { lines, size };
+        size *= 0.9;
+    }
+};
+
+const ellipsePoint = (box: BubbleBox, angle: number, scale = 1) => ({
+    x: box.centerX + box.radiusX * scale * Math.cos(angle),
+    y: box.centerY + box.radiusY * scale * Math.sin(angle),
+});
+
+// The tail's direction as an angle on the ellipse, or null when the tail point sits inside the bubble.
+const tailAngle = (box: BubbleBox, tipX: number, tipY: number): number | null => {
+    const dx = (tipX - box.centerX) / box.radiusX;
+    const dy = (tipY - box.centerY) / box.radiusY;
+    return dx * dx + dy * dy <= 1 ? null : Math.atan2(dy, dx);
+};
+
+const addTail = (ctx: CanvasRenderingContext2D, box: BubbleBox, tipX: number, tipY: number, spread: number) => {
+    const angle = tailAngle(box, tipX, tipY);
+    if (angle === null) return;
+    // The base sits a little inside the outline so the fill covers the seam.
+    const start = ellipsePoint(box, angle - spread, 0.85);
+    const end = ellipsePoint(box, angle + spread, 0.85);
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(tipX, tipY);
+    ctx.lineTo(end.x, end.y);
+    ctx.closePath();
+};
+
+const addEllipse = (ctx: CanvasRenderingContext2D, box: BubbleBox, scale = 1) => {
+    ctx.moveTo(box.centerX + box.radiusX * scale, box.centerY);
+    ctx.ellipse(box.centerX, box.centerY, box.radiusX * scale, box.radiusY * scale, 0, 0, Math.PI * 2);
+};
+
+const addCloud = (ctx: CanvasRenderingContext2D, box: BubbleBox) => {
+    const puffs = 10;
+    const puffRadius = Math.min(box.radiusX, box.radiusY) * 0.38;
+    addEllipse(ctx, box, 0.8);
+    for (let i = 0; i < puffs; i++) {
+        const point = ellipsePoint(box, (i / puffs) * Math.PI * 2, 0.78);
+        ctx.moveTo(point.x + puffRadius, point.y);
+        ctx.arc(point.x, point.y, puffRadius, 0, Math.PI * 2);
+    }
+};
+
+const addBurst = (ctx: CanvasRenderingContext2D, box: BubbleBox) => {
+    const spikes = 18;
+    for (let i = 0; i <= spikes * 2; i++) {
+        const point = ellipsePoint(box, (i / (spikes * 2)) * Math.PI * 2, i % 2 === 0 ? 1 : 0.8);
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+    }
+    ctx.closePath();
+};
+
+// Stroking the whole outline at double width and then filling it leaves a single outline around the union
+// of the shapes, so tails and cloud puffs merge into the body without seams.
+const strokeThenFill = (ctx: CanvasRenderingContext2D, lineWidth: number, fill: string) => {
+    ctx.lineWidth = lineWidth * 2;
+    ctx.stroke();
+    ctx.fillStyle = fill;
+    ctx.fill();
+};
+
+const drawBubbleShape = (ctx: CanvasRenderingContext2D, bubble: SpeechBubble, box: BubbleBox, imageWidth: number, imageHeight: number) => {
+    const lineWidth = Math.max(1.5, imageWidth * 0.003);
+    const tipX = bubble.tailX * imageWidth;
+    const tipY = bubble.tailY * imageHeight;
+    ctx.strokeStyle = '#000000';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    switch (bubble.shape) {
+        case 'caption':
+            ctx.rect(box.left, box.top, box.width, box.height);
+            strokeThenFill(ctx, lineWidth, '#fff8dc');
+            return;
+        case 'thought': {
+            addCloud(ctx, box);
+            strokeThenFill(ctx, lineWidth, '#ffffff');
+            // Thought trails are a row of shrinking circles instead of a pointed tail.
+            const angle = tailAngle(box, tipX, tipY);
+            if (angle === null) return;
+            const edge = ellipsePoint(box, angle);
+            const baseRadius = Math.min(box.radiusX, box.radiusY) * 0.14;
+            [0.3, 0.6, 0.9].forEach((t, index) => {
+                ctx.beginPath();
+                ctx.arc(edge.x + (tipX - edge.x) * t, edge.y + (tipY - edge.y) * t, baseRadius * (1 - index * 0.3), 0, Math.PI * 2);
+                ctx.lineWidth = lineWidth;
+                ctx.fillStyle = '#ffffff';
+                ctx.fill();
+                ctx.stroke();
+            });
+            return;
+        }
+        case 'shout':
+            addBurst(ctx, box);
+            addTail(ctx, box, tipX, tipY, 0.12);
+            strokeThenFill(ctx, lineWidth, '#ffffff');
+            return;
+        default:
+            addEllipse(ctx, box);
+            addTail(ctx, box, tipX, tipY, 0.22);
+            strokeThenFill(ctx, lineWidth, '#ffffff');
+    }
+};
+
+/** Draws the bubbles over an image already drawn at `width` x `height` on `ctx`. */
+export const drawBubbles = (ctx: CanvasRenderingContext2D, bubbles: SpeechBubble[], width: number, height: number) => {
+    for (const bubble of bubbles) {
+        const box = getBox(bubble, width, height);
+        ctx.save();
+        drawBubbleShape(ctx, bubble, box, width, height);
+        const { lines, size } = layoutText(ctx, bubble, box, width);
+        ctx.fillStyle = '#000000';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const lineHeight = size * LINE_HEIGHT;
+        const firstLineY = box.centerY - ((lines.length - 1) * lineHeight) / 2;
+        lines.forEach((line, index) => ctx.fillText(line, box.centerX, firstLineY + index * lineHeight));
+        ctx.restore();
+    }
+};
+
+const loadImage = (base64: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = `data:image/png;base64,${base64}`;
+    });
+
+/** The image with its bubbles drawn in, as base64 PNG. Images without bubbles come back unchanged. */
+export const renderImageWithBubbles = async (image: ComicImage): Promise<string> => {
+    if (!image.bubbles?.length) return image.url;
+    const img = await loadImage(image.url);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(img, 0, 0);
+    drawBubbles(ctx, image.bubbles, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Flattening is slow for large images and the same ones are asked for on every preview, so results are kept
+// while the image and its bubbles are unchanged. Each call drops the entries for images that are no longer in
+// any scene, so the cache never holds more than the open project's images. An image whose bubbles were removed
+// keeps its entry, since an undo can bring them back.
+const flattenCache = new Map<string, { url: string; bubbles: SpeechBubble[]; result: string }>();
+
+const pruneFlattenCache = (scenes: Scene[]) => {
+    const imageIds = new Set(scenes.flatMap(scene => scene.images.map(image => image.id)));
+    for (const id of flattenCache.keys()) {
+        if (!imageIds.has(id)) flattenCache.delete(id);
+    }
+};
+
+/** Frees the flattened copies, e.g. once no step shows the video preview any more. */
+export const clearFlattenCache = () => flattenCache.clear();
+
+/**
+ * The scenes with every image that has bubbles replaced by a flattened copy, for exports that only take pixels.
+ * Rejects with an AbortError if `signal` fires, and stops caching, since the caller may already have cleared the cache.
+ */
+export const flattenSceneBubbles = async (scenes: Scene[], signal?: AbortSignal): Promise<Scene[]> => {
+    pruneFlattenCache(scenes);
+    const flattened = await Promise.all(scenes.map(async scene => ({
+        ...scene,
+        images: await Promise.all(scene.images.map(async image => {
+            if (!image.bubbles?.length || image.status !== 'done') return image;
+            const cached = flattenCache.get(image.id);
+            if (cached && cached.url === image.url && cached.bubbles === image.bubbles) return { ...image, url: cached.result };
+            const result = await renderImageWithBubbles(image);
+            if (!signal?.aborted) flattenCache.set(image.id, { url: image.url, bubbles: image.bubbles, result });
+            return { ...image, url: result };
+        })),
+    })));
+    signal?.throwIfAborted();
+    return flattened;
+};
+
+/** Stores `bubbles` on the image wherever it is among the scenes; an empty list removes the field. */
+export const withImageBubbles = (scenes: Scene[], imageId: string, bubbles: SpeechBubble[]): Scene[] =>
+    scenes.map(scene => !scene.images.some(img => img.id === imageId) ? scene : {
+        ...scene,
+        images: scene.images.map(img => img.id === imageId ? { ...img, bubbles: bubbles.length > 0 ? bubbles : undefined } : img),
+    });
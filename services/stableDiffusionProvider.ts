@@ -0,0 +1,77 @@
+import type { AiProvider, ProviderSettings } from './aiProvider';
+import { ensureOk, joinUrl } from './providerUtils';
+
+const LONG_SIDE = 1024;
+const STEPS = 30;
+// How far img2img may move away from the input: low keeps the character, high follows the prompt.
+const EDIT_DENOISING_STRENGTH = 0.55;
+const SCENE_DENOISING_STRENGTH = 0.75;
+// Inside a mask the prompt should win; the WebUI keeps everything outside it.
+const INPAINT_DENOISING_STRENGTH = 0.75;
+
+const dimensionsForAspectRatio = (aspectRatio: string) => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    if (!width || !height) return { width: LONG_SIDE, height: LONG_SIDE };
+    // Stable Diffusion needs sides that are multiples of 64.
+    const shortSide = Math.round((LONG_SIDE * Math.min(width, height)) / Math.max(width, height) / 64) * 64;
+    return width >= height ? { width: LONG_SIDE, height: shortSide } : { width: shortSide, height: LONG_SIDE };
+};
+
+/** Talks to the HTTP API of a self-hosted AUTOMATIC1111 or Forge Stable Diffusion WebUI (started with --api). */
+export const createStableDiffusionProvider = (settings: ProviderSettings, apiKey: string): AiProvider => {
+    const post = async (path: string, body: object, signal?: AbortSignal): Promise<string> => {
+        const response = await fetch(joinUrl(settings.baseUrl, path), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                ...body,
+                steps: STEPS,
+                ...(settings.imageModel ? { override_settings: { sd_model_checkpoint: settings.imageModel } } : {}),
+            }),
+            signal,
+        });
+        const result: { images?: string[] } = await (await ensureOk(response)).json();
+        if (!result.images?.[0]) {
+            throw new Error("Stable Diffusion không trả về hình ảnh nào.");
+        }
+        return result.images[0];
+    };
+
+    const textToImage = (prompt: string, aspectRatio: string, signal?: AbortSignal) =>
+        post('sdapi/v1/txt2img', { prompt, ...dimensionsForAspectRatio(aspectRatio) }, signal);
+
+    return {
+        id: 'stable-diffusion',
+
+        generateImageFromText: (prompt, aspectRatio = '1:1', options) => textToImage(prompt, aspectRatio, options?.signal),
+
+        editImageWithPrompt: (base64Image, _mimeType, prompt, options) =>
+            post('sdapi/v1/img2img', { prompt, init_images: [base64Image], denoising_strength: EDIT_DENOISING_STRENGTH }, options?.signal),
+
+        // inpainting_fill 1 starts from the original pixels; inpaint_full_res redraws the masked area at full resolution.
+        editImageRegion: (base64Image, maskBase64, prompt, options) =>
+            post('sdapi/v1/img2img', {
+                prompt,
+                init_images: [base64Image],
+                mask: maskBase64,
+                mask_blur: 4,
+                inpainting_fill: 1,
+                inpaint_full_res: true,
+                denoising_strength: INPAINT_DENOISING_STRENGTH,
+            }, options?.signal),
+
+        // img2img takes a single init image, so only the first reference conditions the scene.
+        // A scene with no cast has nothing to start from and is drawn from the prompt alone.
+        generateSceneImage: (referenceImages, prompt, options) =>
+            referenceImages.length === 0
+                ? textToImage(prompt, '1:1', options?.signal)
+                : post('sdapi/v1/img2img', { prompt, init_images: referenceImages.slice(0, 1), denoising_strength: SCENE_DENOISING_STRENGTH }, options?.signal),
+
+        splitStoryIntoScenes: async () => {
+            throw new Error("Stable Diffusion không hỗ trợ phân chia truyện thành cảnh. Hãy chọn nhà cung cấp khác cho dự án này ở Bước 1.");
+        },
+    };
+};
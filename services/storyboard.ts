@@ -0,0 +1,86 @@
+import type { Character, DialogueLine, Scene, ShotType, StoryboardScene } from '../types';
+
+// The storyboard format every provider accepts, and the prompt fragments built from it.
+
+export const SHOT_TYPES: ShotType[] = ['wide', 'medium', 'close-up', 'extreme-close-up', 'over-the-shoulder', 'high-angle', 'low-angle'];
+
+export const shotTypeLabels: { [shot in ShotType]: string } = {
+    'wide': 'Toàn cảnh',
+    'medium': 'Trung cảnh',
+    'close-up': 'Cận cảnh',
+    'extreme-close-up': 'Đặc tả',
+    'over-the-shoulder': 'Qua vai',
+    'high-angle': 'Góc cao',
+    'low-angle': 'Góc thấp',
+};
+
+const DEFAULT_SHOT_TYPE: ShotType = 'medium';
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toDialogueLine = (value: unknown): DialogueLine | null => {
+    const line = value as { speaker?: unknown; text?: unknown } | null;
+    const text = asString(line?.text);
+    return text ? { speaker: asString(line?.speaker), text } : null;
+};
+
+// Models are asked for every field but don't always send them; a plain string is read as a bare description.
+const toStoryboardScene = (value: unknown): StoryboardScene | null => {
+    if (typeof value === 'string') {
+        return value.trim() ? { description: value.trim(), characters: [], dialogue: [], narration: '', shotType: DEFAULT_SHOT_TYPE, mood: '' } : null;
+    }
+    const scene = value as { [field: string]: unknown } | null;
+    const description = asString(scene?.description);
+    if (!description) return null;
+    const shotType = asString(scene?.shotType) as ShotType;
+    return {
+        description,
+        characters: Array.isArray(scene?.characters) ? scene.characters.map(asString).filter(Boolean) : [],
+        dialogue: Array.isArray(scene?.dialogue) ? scene.dialogue.map(toDialogueLine).filter((line): line is DialogueLine => line !== null) : [],
+        narration: asString(scene?.narration),
+        shotType: SHOT_TYPES.includes(shotType) ? shotType : DEFAULT_SHOT_TYPE,
+        mood: asString(scene?.mood),
+    };
+};
+
+export const parseStoryboard = (jsonString: string): StoryboardScene[] => {
+    if (!jsonString) {
+        throw new Error("AI đã trả về một phản hồi trống. Điều này có thể do nội dung truyện của bạn đã bị bộ lọc an toàn chặn. Vui lòng thử điều chỉnh lại câu chuyện.");
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonString);
+    } catch (jsonError) {
+        console.error("Lỗi khi phân tích JSON từ AI:", jsonString);
+        throw new Error("AI đã không trả về định dạng JSON hợp lệ như mong đợi. Vui lòng thử lại.");
+    }
+    const scenes = Array.isArray(parsed) ? parsed.map(toStoryboardScene) : [];
+    if (scenes.length > 0 && scenes.every(scene => scene !== null)) {
+        return scenes as StoryboardScene[];
+    }
+    throw new Error("Phản hồi từ AI không đúng định dạng danh sách cảnh mong muốn.");
+};
+
+// Names each character and says which of the attached reference images show them, in attachment order.
+const describeCast = (cast: Character[]): string => {
+    let imageCount = 0;
+    return cast.map(character => {
+        const first = imageCount + 1;
+        imageCount += character.referenceImages.length;
+        const images = character.referenceImages.length === 0 ? 'không có ảnh tham chiếu'
+            : character.referenceImages.length === 1 ? `ảnh tham chiếu ${first}` : `ảnh tham chiếu ${first}-${imageCount}`;
+        return `${character.name} (${images})${character.description ? `: ${character.description}` : ''}`;
+    }).join('; ');
+};
+
+/** What the `{{characters}}` placeholder renders to in the scene prompt. `cast` must be in the order their reference images are sent. */
+export const describeSceneCharacters = (cast: Character[]): string =>
+    cast.length > 0
+        ? `Nhân vật trong cảnh: ${describeCast(cast)}. Giữ nguyên phong cách và ngoại hình của từng nhân vật theo ảnh tham chiếu của họ, và không vẽ thêm nhân vật nào khác từ ảnh tham chiếu.`
+        : 'Cảnh này không có nhân vật chính.';
+
+/** What the `{{framing}}` placeholder renders to: the shot type and mood, when the storyboard has them. */
+export const describeSceneFraming = (scene: Scene): string => [
+    scene.shotType && `Góc máy: ${shotTypeLabels[scene.shotType]}.`,
+    scene.mood && `Không khí: ${scene.mood}.`,
+].filter(Boolean).join(' ');
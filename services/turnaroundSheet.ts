@@ -0,0 +1,44 @@
+import type { ComicImage } from '../types';
+
+// A turnaround sheet: one character drawn from several angles and with several expressions, kept as a set.
+
+export type TurnaroundViewId = 'front' | 'three-quarter' | 'back' | 'happy' | 'angry' | 'sad' | 'surprised';
+
+export interface TurnaroundView {
+    id: TurnaroundViewId;
+    label: string;
+    kind: 'view' | 'expression';
+    prompt: string; // fills the {{view}} placeholder
+}
+
+export const TURNAROUND_VIEWS: TurnaroundView[] = [
+    { id: 'front', label: 'Chính diện', kind: 'view', prompt: 'full body, front view, standing in a neutral pose' },
+    { id: 'three-quarter', label: 'Ba phần tư', kind: 'view', prompt: 'full body, three-quarter view, standing in a neutral pose' },
+    { id: 'back', label: 'Phía sau', kind: 'view', prompt: 'full body, back view, standing in a neutral pose' },
+    { id: 'happy', label: 'Vui', kind: 'expression', prompt: 'head-and-shoulders portrait with a happy, smiling expression' },
+    { id: 'angry', label: 'Giận', kind: 'expression', prompt: 'head-and-shoulders portrait with an angry expression' },
+    { id: 'sad', label: 'Buồn', kind: 'expression', prompt: 'head-and-shoulders portrait with a sad expression' },
+    { id: 'surprised', label: 'Ngạc nhiên', kind: 'expression', prompt: 'head-and-shoulders portrait with a surprised expression' },
+];
+
+/** Drawn first from text alone; every other panel is drawn with it as the reference so the set stays on-model. */
+export const ANCHOR_VIEW: TurnaroundViewId = 'front';
+
+export interface TurnaroundSheet {
+    id: string;
+    description: string;
+    panels: { [view in TurnaroundViewId]: ComicImage };
+}
+
+export const createTurnaroundSheet = (description: string): TurnaroundSheet => {
+    const id = `sheet-${Date.now()}`;
+    const panels = {} as TurnaroundSheet['panels'];
+    for (const view of TURNAROUND_VIEWS) {
+        panels[view.id] = { id: `${id}-${view.id}`, url: '', isSelected: false, status: 'generating', duration: 3 };
+    }
+    return { id, description, panels };
+};
+
+/** The finished panels in sheet order, ready to be added to a character's references. */
+export const getSheetImages = (sheet: TurnaroundSheet): string[] =>
+    TURNAROUND_VIEWS.map(view => sheet.panels[view.id]).filter(panel => panel.status === 'done').map(panel => panel.url);
@@ -0,0 +1,136 @@
+import { USAGE_STORE, getStore, runRequest } from './db';
+
+export const API_USAGE_RECORDED_EVENT = 'apiUsageRecorded';
+
+export type UsageOutcome = 'success' | 'quota' | 'invalid' | 'unavailable' | 'error';
+
+export interface UsageRecord {
+    id?: number;
+    keyId: string | null;
+    keyName: string;
+    model: string;
+    operation: string;
+    timestamp: number;
+    latencyMs: number;
+    outcome: UsageOutcome;
+}
+
+export interface DailyUsage {
+    date: string; // YYYY-MM-DD in local time
+    calls: number;
+    errors: number;
+    estimatedCost: number;
+}
+
+export interface KeyUsageSummary {
+    keyId: string | null;
+    keyName: string;
+    calls: number;
+    errors: number;
+    estimatedCost: number;
+    days: DailyUsage[]; // newest first
+}
+
+export const operationLabels: { [operation: string]: string } = {
+    generateImageFromText: 'Tạo nhân vật',
+    editImageWithPrompt: 'Chỉnh sửa ảnh',
+    editImageRegion: 'Chỉnh sửa vùng ảnh',
+    generateSceneImage: 'Tạo ảnh cảnh',
+    splitStoryIntoScenes: 'Phân chia cảnh',
+    probeModel: 'Kiểm tra key',
+};
+
+// Rough list prices in USD per successful call. Text calls are billed per token, so this is an average.
+const ESTIMATED_PRICE_PER_CALL: { [model: string]: number } = {
+    'imagen-4.0-generate-001': 0.04,
+    'gemini-2.5-flash-image': 0.039,
+    'gemini-2.5-flash': 0.002,
+};
+
+// Key probes read model metadata or ask for a single token, so they are treated as free.
+export const estimateCost = (record: UsageRecord): number =>
+    record.outcome === 'success' && record.operation !== 'probeModel' ? ESTIMATED_PRICE_PER_CALL[record.model] ?? 0 : 0;
+
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+    try {
+        const store = await getStore(USAGE_STORE, 'readwrite');
+        await runRequest(store.add(record));
+        window.dispatchEvent(new CustomEvent(API_USAGE_RECORDED_EVENT));
+    } catch (error) {
+        // Tracking must never break generation, so failures are only logged.
+        console.error("Failed to record API usage:", error);
+    }
+};
+
+export const listUsageRecords = async (): Promise<UsageRecord[]> => {
+    const store = await getStore(USAGE_STORE, 'readonly');
+    const records = await runRequest(store.getAll() as IDBRequest<UsageRecord[]>);
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+    const store = await getStore(USAGE_STORE, 'readwrite');
+    await runRequest(store.clear());
+    window.dispatchEvent(new CustomEvent(API_USAGE_RECORDED_EVENT));
+};
+
+const toLocalDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const summarizeUsageByKey = (records: UsageRecord[]): KeyUsageSummary[] => {
+    const summaries = new Map<string, KeyUsageSummary & { dayMap: Map<string, DailyUsage> }>();
+    records.forEach(record => {
+        // Keys that are not in the saved list have no id, so they are grouped by their display name.
+        const groupKey = record.keyId ?? `name:${record.keyName}`;
+        let summary = summaries.get(groupKey);
+        if (!summary) {
+            summary = { keyId: record.keyId, keyName: record.keyName, calls: 0, errors: 0, estimatedCost: 0, days: [], dayMap: new Map() };
+            summaries.set(groupKey, summary);
+        }
+        const date = toLocalDate(record.timestamp);
+        let day = summary.dayMap.get(date);
+        if (!day) {
+            day = { date, calls: 0, errors: 0, estimatedCost: 0 };
+            summary.dayMap.set(date, day);
+        }
+        const isError = record.outcome !== 'success';
+        const cost = estimateCost(record);
+        summary.keyName = record.keyName; // the latest name wins if a key was renamed
+        summary.calls++;
+        day.calls++;
+        if (isError) {
+            summary.errors++;
+            day.errors++;
+        }
+        summary.estimatedCost += cost;
+        day.estimatedCost += cost;
+    });
+
+    return Array.from(summaries.values()).map(({ dayMap, ...summary }) => ({
+        ...summary,
+        days: Array.from(dayMap.values()).sort((a, b) => b.date.localeCompare(a.date)),
+    }));
+};
+
+const escapeCsvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageRecordsToCsv = (records: UsageRecord[]): string => {
+    const header = ['timestamp', 'keyId', 'keyName', 'model', 'operation', 'latencyMs', 'outcome', 'estimatedCostUsd'];
+    const rows = records.map(record => [
+        new Date(record.timestamp).toISOString(),
+        record.keyId ?? '',
+        record.keyName,
+        record.model,
+        record.operation,
+        record.latencyMs,
+        record.outcome,
+        estimateCost(record).toFixed(4),
+    ]);
+    return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n');
+};
@@ -1,4 +1,5 @@
-import type { SavedApiKey } from '../types';
+import type { ModelCapability } from '../types';
+import { updateSavedApiKey } from './keyVault';
 
 export const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -76,63 +77,91 @@ export const getMimeTypeFromDataUrl = (dataUrl: string): string => {
 
 export const markApiKeyAsInvalid = (invalidKeyValue: string) => {
     try {
-        const storedKeys = localStorage.getItem('geminiApiKeysList');
-        if (storedKeys) {
-            let keys: SavedApiKey[] = JSON.parse(storedKeys);
-            let keyUpdated = false;
-            keys = keys.map(key => {
-                if (key.value === invalidKeyValue && key.status !== 'invalid') {
-                    keyUpdated = true;
-                    return { ...key, status: 'invalid' };
-                }
-                return key;
-            });
-
-            if (keyUpdated) {
-                localStorage.setItem('geminiApiKeysList', JSON.stringify(keys));
-                window.dispatchEvent(new CustomEvent('apiKeysUpdated'));
-            }
-        }
+        updateSavedApiKey(invalidKeyValue, key => key.status !== 'invalid' ? { ...key, status: 'invalid', exhaustedUntil: undefined } : null);
     } catch (error) {
         console.error("Failed to mark API key as invalid in storage:", error);
     }
 };
 
+export const markApiKeyAsExhausted = (keyValue: string, exhaustedUntil: number) => {
+    try {
+        updateSavedApiKey(keyValue, key => key.status !== 'invalid' ? { ...key, status: 'exhausted', exhaustedUntil } : null);
+    } catch (error) {
+        console.error("Failed to mark API key as exhausted in storage:", error);
+    }
+};
+
 export const clearApiKeyStatus = (keyValue: string) => {
     try {
-        const storedKeys = localStorage.getItem('geminiApiKeysList');
-        if (storedKeys) {
-            let keys: SavedApiKey[] = JSON.parse(storedKeys);
-            let keyUpdated = false;
-            keys = keys.map(key => {
-                if (key.value === keyValue && key.status) {
-                    keyUpdated = true;
-                    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                    const { status, ...rest } = key;
-                    return rest;
-                }
-                return key;
-            });
-
-            if (keyUpdated) {
-                localStorage.setItem('geminiApiKeysList', JSON.stringify(keys));
-                window.dispatchEvent(new CustomEvent('apiKeysUpdated'));
-            }
-        }
+        updateSavedApiKey(keyValue, key => {
+            if (!key.status) return null;
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { status, exhaustedUntil, ...rest } = key;
+            return rest;
+        });
     } catch (error) {
         console.error("Failed to clear API key status in storage:", error);
     }
 }
 
+export const setApiKeyCapabilities = (keyValue: string, capabilities: { [model: string]: ModelCapability }, checkedAt?: number) => {
+    try {
+        updateSavedApiKey(keyValue, key => {
+            // Outcomes of real calls arrive without a timestamp and are only written when they change something.
+            const unchanged = Object.keys(capabilities).every(model => key.capabilities?.[model] === capabilities[model]);
+            if (unchanged && !checkedAt) return null;
+            return { ...key, capabilities: { ...key.capabilities, ...capabilities }, capabilitiesCheckedAt: checkedAt ?? key.capabilitiesCheckedAt };
+        });
+    } catch (error) {
+        console.error("Failed to save API key capabilities in storage:", error);
+    }
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+    const message = error instanceof Error ? error.message : '';
+    return message.includes('429') || message.includes('RESOURCE_EXHAUSTED') || message.includes('quota');
+};
+
+// The SDK's ApiError carries the HTTP status; errors rethrown as plain Errors still embed it in the message.
+const getErrorStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') return status;
+    const match = (error instanceof Error ? error.message : '').match(/got status: (\d{3})\b|"code":\s*(\d{3})\b/);
+    return match ? parseInt(match[1] ?? match[2], 10) : undefined;
+};
+
+// Free-tier keys cannot reach Imagen, and unknown or retired models return 404.
+export const isModelUnavailableError = (error: unknown): boolean => {
+    const message = error instanceof Error ? error.message : '';
+    return message.includes('billed users') || getErrorStatus(error) === 404 || message.includes('NOT_FOUND');
+};
+
+export const isInvalidKeyError = (error: unknown): boolean => {
+    const message = error instanceof Error ? error.message : '';
+    return message.toLowerCase().includes('api key') || message.includes('403') || message.includes('permission denied');
+};
+
+// Rate limits and server-side failures that are worth retrying after a pause.
+export const isTransientError = (error: unknown): boolean => {
+    const message = error instanceof Error ? error.message : '';
+    return isQuotaError(error) || /\b50[0-4]\b/.test(message) || message.includes('UNAVAILABLE') || message.includes('INTERNAL') || message.includes('Failed to fetch');
+};
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
 export const parseGeminiError = (error: unknown): string => {
     if (error instanceof Error) {
         const message = error.message;
         // Check for quota/rate limit errors
-        if (message.includes('429') || message.includes('RESOURCE_EXHAUSTED') || message.includes('quota')) {
+        if (isQuotaError(error)) {
             return "Bạn đã vượt quá hạn ngạch API (lỗi 429). Điều này thường xảy ra khi dùng hết số lượt yêu cầu miễn phí. Vui lòng đợi một lát rồi thử lại, hoặc sử dụng một API Key khác.";
         }
+        if (isModelUnavailableError(error)) {
+            return "Không có API Key nào của bạn dùng được mô hình AI cần cho thao tác này. Hãy kiểm tra lại các key ở Bước 1 hoặc thêm một key có bật thanh toán.";
+        }
         // Check for invalid API key errors
-        if (message.toLowerCase().includes('api key') || message.includes('403') || message.includes('permission denied')) {
+        if (isInvalidKeyError(error)) {
             return "API Key không hợp lệ hoặc đã hết hạn. Vui lòng chọn một key khác ở Bước 1 và thử lại.";
         }
         // Return the original message for other errors, as it might be descriptive.
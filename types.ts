@@ -1,9 +1,35 @@
+export interface ImageRevision {
+    id: string;
+    url: string; // base64 string
+    prompt: string | null; // edit prompt that produced this revision, null for the original
+    createdAt: number;
+}
+
 export interface ComicImage {
     id: string;
     url: string; // base64 string
     isSelected: boolean;
     status: 'idle' | 'generating' | 'error' | 'done';
     duration: number; // in seconds
+    revisions?: ImageRevision[]; // oldest first; only present once the image has been edited
+    bubbles?: SpeechBubble[]; // drawn over the image wherever it is shown or exported, never baked into `url`
+}
+
+export type BubbleShape = 'speech' | 'thought' | 'shout' | 'caption';
+
+// Positions and sizes are fractions of the image, so bubbles survive edits, crops on pages and any export size.
+export interface SpeechBubble {
+    id: string;
+    shape: BubbleShape;
+    text: string;
+    x: number; // left edge
+    y: number; // top edge
+    width: number;
+    height: number;
+    tailX: number; // the point the tail reaches, usually the speaker; captions have no tail
+    tailY: number;
+    fontId: string; // see BUBBLE_FONTS in speechBubbles
+    fontSize: number; // percent of the image width
 }
 
 export interface SceneOverlay {
@@ -26,10 +52,60 @@ export interface VideoSegment {
     duration: number; // in seconds
 }
 
+export interface Character {
+    id: string;
+    name: string;
+    description: string; // appearance notes injected into scene prompts
+    referenceImages: string[]; // base64 strings
+}
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    positive: string; // style words added to every generation and edit prompt
+    negative: string; // what the model should avoid
+    referenceImages: string[]; // base64 strings, sent after the character references where the call accepts images
+    builtIn?: boolean;
+}
+
+export interface ArtStyleSettings {
+    selectedId: string | null; // a built-in or custom preset; null adds no style words
+    customPresets: StylePreset[];
+}
+
+export type PromptTemplateId = 'character' | 'turnaroundFront' | 'turnaroundView' | 'scene' | 'storySplit';
+
+/** Per-project replacements for the built-in prompt templates; a missing entry uses the default. */
+export type PromptTemplateOverrides = { [id in PromptTemplateId]?: string };
+
+export type ShotType = 'wide' | 'medium' | 'close-up' | 'extreme-close-up' | 'over-the-shoulder' | 'high-angle' | 'low-angle';
+
+export interface DialogueLine {
+    speaker: string;
+    text: string;
+}
+
+/** One scene as the storyboard split returns it, before it becomes a `Scene`. */
+export interface StoryboardScene {
+    description: string; // what to draw
+    characters: string[];
+    dialogue: DialogueLine[];
+    narration: string;
+    shotType: ShotType;
+    mood: string;
+}
+
 export interface Scene {
     id: string;
     description: string;
+    characters?: string[];
+    dialogue?: DialogueLine[];
+    narration?: string; // caption text, also used for voiceover
+    shotType?: ShotType;
+    mood?: string;
+    castIds?: string[]; // roster characters drawn in this scene; undefined casts the whole roster
     images: ComicImage[];
+    variationCount?: number; // overrides the step-wide number of variations to generate
     backgroundMusicFile?: File | null;
     backgroundMusicUrl?: string | null;
     backgroundMusicVolume?: number;
@@ -39,9 +115,47 @@ export interface Scene {
     overlay?: SceneOverlay;
 }
 
+export type PageLayoutId = 'grid-2x2' | 'three-tier' | 'splash' | 'asymmetric';
+
+export interface PanelCrop {
+    zoom: number; // 1 fills the frame edge to edge; higher zooms in
+    focusX: number; // 0-1, the point of the image kept at the frame's center where the zoom allows
+    focusY: number;
+}
+
+export interface ComicPanel {
+    imageId: string | null; // a ComicImage from any scene; null leaves the frame empty
+    crop: PanelCrop;
+}
+
+export interface ComicPage {
+    id: string;
+    layoutId: PageLayoutId;
+    panels: ComicPanel[]; // one per frame of the layout, in reading order
+}
+
+export interface PageStyle {
+    margin: number; // page units, see PAGE_WIDTH in comicPages
+    gutter: number;
+    borderWidth: number;
+    borderColor: string;
+    backgroundColor: string;
+}
+
+export interface ComicBook {
+    pages: ComicPage[];
+    style: PageStyle;
+}
+
+// 'unverified': the key can see the model, but only a paid call would prove it may use it.
+export type ModelCapability = 'available' | 'unavailable' | 'unverified' | 'unknown';
+
 export interface SavedApiKey {
     id: string;
     name: string;
     value: string;
-    status?: 'invalid';
+    status?: 'invalid' | 'exhausted';
+    exhaustedUntil?: number; // epoch ms when an exhausted key's quota is expected to reset
+    capabilities?: { [model: string]: ModelCapability };
+    capabilitiesCheckedAt?: number;
 }
\ No newline at end of file